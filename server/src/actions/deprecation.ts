@@ -0,0 +1,29 @@
+import {CodeActionWrapper} from "./utils";
+import {SymbolGlobalScope} from "../compiler_analyzer/symbolScope";
+import {TextRange} from "../compiler_tokenizer/textLocation";
+import * as lsp from "vscode-languageserver";
+
+export function codeActionDeprecation(globalScope: SymbolGlobalScope, range: TextRange): CodeActionWrapper[] {
+    const result: CodeActionWrapper[] = [];
+    for (const info of globalScope.info.deprecatedReference) {
+        if (info.replacement === undefined || info.fromToken.location.intersects(range) === false) continue;
+
+        const replacement = info.replacement;
+        result.push({
+            action: {
+                title: `Replace '${info.fromToken.text}' with '${replacement}'`,
+                kind: lsp.CodeActionKind.QuickFix,
+            },
+            resolver: (action) => {
+                // e.g., 'oldFn()' --> 'newFn()'
+                action.edit = {
+                    changes: {
+                        [info.fromToken.location.path]: [{range: info.fromToken.location, newText: replacement}]
+                    }
+                };
+            }
+        });
+    }
+
+    return result;
+}
@@ -0,0 +1,33 @@
+import {CodeActionWrapper} from "./utils";
+import {SymbolGlobalScope} from "../compiler_analyzer/symbolScope";
+import {TextRange} from "../compiler_tokenizer/textLocation";
+import * as lsp from "vscode-languageserver";
+
+export function codeActionImplicitConversion(globalScope: SymbolGlobalScope, range: TextRange): CodeActionWrapper[] {
+    const result: CodeActionWrapper[] = [];
+    for (const info of globalScope.info.implicitConversion) {
+        if (info.sourceLocation.intersects(range) === false) continue;
+
+        const destinationType = info.destinationType;
+        result.push({
+            action: {
+                title: `Convert explicitly to '${destinationType}'`,
+                kind: lsp.CodeActionKind.QuickFix,
+            },
+            resolver: (action) => {
+                // e.g., 'x' --> 'int8(x)'
+                const {start, end} = info.sourceLocation;
+                action.edit = {
+                    changes: {
+                        [info.sourceLocation.path]: [
+                            {range: {start: start, end: start}, newText: `${destinationType}(`},
+                            {range: {start: end, end: end}, newText: ')'}
+                        ]
+                    }
+                };
+            }
+        });
+    }
+
+    return result;
+}
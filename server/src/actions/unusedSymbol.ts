@@ -0,0 +1,48 @@
+import {CodeActionWrapper} from "./utils";
+import {SymbolGlobalScope} from "../compiler_analyzer/symbolScope";
+import {TextRange} from "../compiler_tokenizer/textLocation";
+import * as lsp from "vscode-languageserver";
+import {UnusedSymbolInfo} from "../compiler_analyzer/info";
+
+export function codeActionUnusedSymbol(globalScope: SymbolGlobalScope, range: TextRange): CodeActionWrapper[] {
+    const result: CodeActionWrapper[] = [];
+    for (const info of globalScope.info.unusedSymbol) {
+        if (info.identifierToken.location.intersects(range) === false) continue;
+
+        const identifier = info.identifierToken.text;
+        if (info.removalLocation !== undefined) {
+            result.push({
+                action: {
+                    title: info.isParameter
+                        ? `Remove the name of unused parameter '${identifier}'`
+                        : `Remove unused declaration '${identifier}'`,
+                    kind: lsp.CodeActionKind.QuickFix,
+                },
+                resolver: (action) => {
+                    action.edit = createWorkspaceEdit(info, {range: info.removalLocation!, newText: ''});
+                }
+            });
+        }
+
+        result.push({
+            action: {
+                title: `Prefix '${identifier}' with an underscore`,
+                kind: lsp.CodeActionKind.QuickFix,
+            },
+            resolver: (action) => {
+                const start = info.identifierToken.location.start;
+                action.edit = createWorkspaceEdit(info, {range: {start: start, end: start}, newText: '_'});
+            }
+        });
+    }
+
+    return result;
+}
+
+function createWorkspaceEdit(info: UnusedSymbolInfo, edit: lsp.TextEdit): lsp.WorkspaceEdit {
+    return {
+        changes: {
+            [info.identifierToken.location.path]: [edit]
+        }
+    };
+}
@@ -6,9 +6,11 @@ import {
     isMemberMethodInPostOp,
     NodeArgList,
     NodeAssign,
+    NodeBreak,
     NodeCase,
     NodeCast,
     NodeCondition,
+    NodeContinue,
     NodeDoWhile,
     NodeEnum,
     NodeExpr,
@@ -39,17 +41,22 @@ import {
     NodeType,
     NodeVar,
     NodeVarAccess,
-    NodeWhile
+    NodeWhile,
+    ReferenceModifier
 } from "../compiler_parser/nodes";
 import {
     isNodeClassOrInterface,
+    ListPatternEntry,
+    ListPatternKind,
+    ListPatternList,
+    ListPatternRepeat,
     SymbolFunction,
     SymbolFunctionHolder,
     SymbolHolder,
     SymbolType,
     SymbolVariable
 } from "./symbolObject";
-import {NumberLiteral, TokenIdentifier, TokenKind, TokenObject} from "../compiler_tokenizer/tokenObject";
+import {NumberLiteral, TokenIdentifier, TokenKind, TokenNumber, TokenObject} from "../compiler_tokenizer/tokenObject";
 import {
     createAnonymousIdentifier,
     getActiveGlobalScope,
@@ -57,32 +64,65 @@ import {
     SymbolGlobalScope,
     SymbolScope
 } from "./symbolScope";
-import {checkFunctionCall} from "./functionCall";
+import {evaluateFunctionCall} from "./functionCall";
+import {checkForEachCall} from "./forEachCall";
+import {checkFunctionControlFlow} from "./controlFlow";
+import {checkUnusedSymbols} from "./unusedSymbol";
+import {checkDeprecatedReferences} from "./deprecation";
 import {checkTypeCast, assertTypeCast} from "./typeCast";
+import {checkConstantConversion, checkForEachValueConversion} from "./typeConversionSideEffect";
+import {
+    canRepresentConstant,
+    ConstantValue,
+    evaluateConstantAssign,
+    evaluateConstantExpr,
+    evaluateEnumValues,
+    evaluateNumberLiteral
+} from "./constantEvaluator";
 import {
     builtinBoolType,
+    builtinFloatType,
+    builtinNullType,
+    builtinThisToken,
     resolvedBuiltinBool,
     resolvedBuiltinDouble,
     resolvedBuiltinFloat,
     resolvedBuiltinInt,
+    resolvedBuiltinInt64,
+    resolvedBuiltinNull,
+    resolvedBuiltinUInt,
+    resolvedBuiltinUInt64,
     tryGetBuiltinType
 } from "./builtinType";
 import {
     canAccessInstanceMember,
+    canHoldHandle,
+    canTakeHandle,
     findSymbolWithParent,
     getSymbolAndScopeIfExist,
     isResolvedAutoType,
+    stringifyInaccessibleMember,
     stringifyResolvedType
 } from "./symbolUtils";
 import {Mutable} from "../utils/utilities";
 import {getGlobalSettings} from "../core/settings";
-import {ResolvedType, TemplateTranslator} from "./resolvedType";
+import {applyTemplateTranslator, ResolvedType, TemplateTranslator} from "./resolvedType";
 import {analyzerDiagnostic} from "./analyzerDiagnostic";
 import {getBoundingLocationBetween, TokenRange} from "../compiler_tokenizer/tokenRange";
 import {AnalyzerScope} from "./analyzerScope";
 import {canComparisonOperatorCall, checkOverloadedOperatorCall, evaluateNumberOperatorCall} from "./operatorCall";
 import {extendTokenLocation} from "../compiler_tokenizer/tokenUtils";
-import {checkDefaultConstructorCall, assertDefaultSuperConstructorCall, findConstructorOfType} from "./constrcutorCall";
+import {
+    getLambdaInCondition, getOperatorPrecedence, getTrailingFuncCallIdentifier, isFunctionDeclarationOnly, isHandleExpr
+} from "../compiler_parser/nodesUtils";
+import {normalizeType} from "./typeConversion";
+import {
+    assertAccessibleDefaultConstructor,
+    assertDefaultSuperConstructorCall,
+    assertInstantiableType,
+    checkDefaultConstructorCall,
+    findConstructorOfType
+} from "./constrcutorCall";
 import assert = require("node:assert");
 
 export type HoistQueue = (() => void)[];
@@ -111,6 +151,7 @@ export function pushScopeRegionInfo(targetScope: SymbolScope, tokenRange: TokenR
 export function analyzeFunc(scope: SymbolScope, func: NodeFunc) {
     if (func.head === funcHeadDestructor) {
         analyzeStatBlock(scope, func.statBlock);
+        checkFunctionControlFlow(func.statBlock, false);
         return;
     }
 
@@ -132,6 +173,12 @@ export function analyzeFunc(scope: SymbolScope, func: NodeFunc) {
 
     // Analyze the scope
     analyzeStatBlock(scope, func.statBlock);
+
+    if (isFunctionDeclarationOnly(func) === false) {
+        const returnsValue =
+            isFuncHeadReturnValue(func.head) && func.head.returnType.dataType.identifier.text !== 'void';
+        checkFunctionControlFlow(func.statBlock, returnsValue);
+    }
 }
 
 // BNF: INTERFACE     ::= {'external' | 'shared'} 'interface' IDENTIFIER (';' | ([':' IDENTIFIER {',' IDENTIFIER}] '{' {VIRTPROP | INTFMTHD} '}'))
@@ -142,13 +189,21 @@ export function analyzeVar(scope: SymbolScope, nodeVar: NodeVar, isInstanceMembe
 
     for (const declaredVar of nodeVar.variables) {
         const initializer = declaredVar.initializer;
-        if (initializer === undefined) continue;
+        if (initializer === undefined) {
+            // e.g., 'Object obj;' calls the default constructor.
+            if (varType !== undefined) {
+                assertInstantiableType(new TokenRange(declaredVar.identifier, declaredVar.identifier), varType);
+                assertAccessibleDefaultConstructor(scope, declaredVar.identifier, varType);
+            }
+
+            continue;
+        }
 
         const initType = analyzeVarInitializer(scope, varType, declaredVar.identifier, initializer);
 
         if (initType !== undefined && isResolvedAutoType(varType)) {
-            // Resolve the auto type
-            varType = initType;
+            // Resolve the auto type, e.g., 'const auto value = 1;' is resolved to 'const int'
+            varType = initType.cloneWithConst(varType?.isConst === true);
 
             // TODO: Code cleanup
             if (varType !== undefined) {
@@ -164,13 +219,33 @@ export function analyzeVar(scope: SymbolScope, nodeVar: NodeVar, isInstanceMembe
 }
 
 // TYPE IDENTIFIER
-export function analyzeForEachVar(scope: SymbolScope, nodeForEachVar: NodeForEachVar, nodeAssign: NodeAssign) {
-    // TODO: figure out how to resolve `opForValue{N}`
-    // when `auto` is used
+export function analyzeForEachVar(scope: SymbolScope, nodeForEachVar: NodeForEachVar, valueType: ResolvedType | undefined) {
+    let varType = analyzeType(scope, nodeForEachVar.type);
+    if (isResolvedAutoType(varType)) {
+        // Resolve the auto type by the value provided by 'opForValue{N}'
+        varType = valueType;
+
+        if (valueType !== undefined) {
+            getActiveGlobalScope().info.autoTypeResolution.push({
+                autoToken: nodeForEachVar.identifier,
+                resolvedType: valueType,
+            });
+        }
+    } else if (valueType !== undefined && varType !== undefined) {
+        if (checkTypeCast(valueType, varType)) {
+            checkForEachValueConversion(valueType, varType, nodeForEachVar.nodeRange);
+        } else {
+            analyzerDiagnostic.error(
+                nodeForEachVar.nodeRange.getBoundingLocation(),
+                `'${stringifyResolvedType(valueType)}' cannot be converted to '${stringifyResolvedType(varType)}'.`
+            );
+        }
+    }
+
     const variable: SymbolVariable = SymbolVariable.create({
         identifierToken: nodeForEachVar.identifier,
         scopePath: scope.scopePath,
-        type: analyzeType(scope, nodeForEachVar.type),
+        type: varType,
         isInstanceMember: false,
         accessRestriction: undefined,
     });
@@ -179,12 +254,16 @@ export function analyzeForEachVar(scope: SymbolScope, nodeForEachVar: NodeForEac
 
 export function insertVariables(scope: SymbolScope, varType: ResolvedType | undefined, nodeVar: NodeVar, isInstanceMember: boolean) {
     for (const declaredVar of nodeVar.variables) {
+        const initializer = declaredVar.initializer;
         const variable: SymbolVariable = SymbolVariable.create({
             identifierToken: declaredVar.identifier,
             scopePath: scope.scopePath,
             type: varType,
             isInstanceMember: isInstanceMember,
             accessRestriction: nodeVar.accessor,
+            constantInitializer:
+                nodeVar.type.isConst && initializer?.nodeName === NodeName.Assign ? initializer : undefined,
+            metadata: nodeVar.metadata,
         });
         scope.insertSymbolAndCheck(variable);
     }
@@ -197,10 +276,20 @@ export function analyzeVarInitializer(
     initializer: NodeInitList | NodeAssign | NodeArgList
 ): ResolvedType | undefined {
     if (initializer.nodeName === NodeName.InitList) {
-        return analyzeInitList(scope, initializer);
+        return analyzeInitList(scope, initializer, varType);
     } else if (initializer.nodeName === NodeName.Assign) {
+        const lambda = initializer.tail === undefined ? getLambdaInCondition(initializer.condition) : undefined;
+        if (lambda !== undefined) {
+            // e.g., 'Callback@ callback = function(a, b) { ... };'
+            return analyzeLambda(scope, lambda, isResolvedAutoType(varType) ? undefined : varType);
+        }
+
         const exprType = analyzeAssign(scope, initializer);
-        assertTypeCast(exprType, varType, initializer.nodeRange);
+        if (assertTypeCast(exprType, varType, initializer.nodeRange)) {
+            assertHandleConstness(varType, exprType, initializer.nodeRange);
+            checkConstantConversion(evaluateConstantAssign(scope, initializer), varType, initializer.nodeRange);
+        }
+
         return exprType;
     } else if (initializer.nodeName === NodeName.ArgList) {
         if (varType === undefined || varType.typeOrFunc.isFunction()) return undefined;
@@ -281,13 +370,22 @@ export function analyzeType(scope: SymbolScope, nodeType: NodeType): ResolvedTyp
 
     const {symbol: foundSymbol, scope: foundScope} = symbolAndScope;
     if (foundSymbol.isFunctionHolder() && foundSymbol.first.linkedNode.nodeName === NodeName.FuncDef) {
-        return completeAnalyzingType(scope, typeIdentifier, foundSymbol.first, foundScope, true);
+        return completeAnalyzingType(scope, typeIdentifier, foundSymbol.first, foundScope, true, undefined, nodeType.isConst);
     } else if (foundSymbol instanceof SymbolType === false) {
         analyzerDiagnostic.error(typeIdentifier.location, `'${givenIdentifier}' is not a type.`);
         return undefined;
     } else {
         const typeTemplates = analyzeTemplateTypes(scope, givenTypeTemplates, foundSymbol.templateTypes);
-        return completeAnalyzingType(scope, typeIdentifier, foundSymbol, foundScope, undefined, typeTemplates);
+        return completeAnalyzingType(
+            scope,
+            typeIdentifier,
+            foundSymbol,
+            foundScope,
+            nodeType.refModifier !== undefined,
+            typeTemplates,
+            nodeType.isConst,
+            nodeType.refModifier === ReferenceModifier.AtConst
+        );
     }
 }
 
@@ -307,16 +405,25 @@ function completeAnalyzingType(
     foundScope: SymbolScope,
     isHandler?: boolean,
     typeTemplates?: TemplateTranslator | undefined,
+    isConst?: boolean,
+    isHandleConst?: boolean
 ): ResolvedType | undefined {
     getActiveGlobalScope().info.reference.push({
         toSymbol: foundSymbol,
         fromToken: identifier
     });
 
+    if (foundSymbol.isType() && foundSymbol.isMixin === true) {
+        analyzerDiagnostic.error(identifier.location, `Mixin class '${identifier.text}' cannot be used as a type.`);
+        return undefined;
+    }
+
     return ResolvedType.create({
         typeOrFunc: foundSymbol,
         isHandler: isHandler,
-        templateTranslator: typeTemplates
+        templateTranslator: typeTemplates,
+        isConst: isConst,
+        isHandleConst: isHandleConst
     });
 }
 
@@ -333,7 +440,7 @@ function analyzeReservedType(scope: SymbolScope, nodeType: NodeType): ResolvedTy
     }
 
     const builtinType = tryGetBuiltinType(typeIdentifier);
-    if (builtinType !== undefined) return new ResolvedType(builtinType);
+    if (builtinType !== undefined) return ResolvedType.create({typeOrFunc: builtinType, isConst: nodeType.isConst});
 
     return undefined;
 }
@@ -358,19 +465,163 @@ function analyzeTemplateTypes(scope: SymbolScope, nodeType: NodeType[], template
 }
 
 // BNF: INITLIST      ::= '{' [ASSIGN | INITLIST] {',' [ASSIGN | INITLIST]} '}'
-function analyzeInitList(scope: SymbolScope, initList: NodeInitList) {
-    for (const init of initList.initList) {
-        if (init.nodeName === NodeName.Assign) {
-            analyzeAssign(scope, init);
-        } else if (init.nodeName === NodeName.InitList) {
-            analyzeInitList(scope, init);
+function analyzeInitList(scope: SymbolScope, initList: NodeInitList, expectedType: ResolvedType | undefined) {
+    const listPattern = expectedType !== undefined ? findListPatternOfType(expectedType) : undefined;
+    if (expectedType === undefined || listPattern === undefined) {
+        // The type of the elements is unknown, so we only analyze the elements.
+        for (const init of initList.initList) {
+            if (init.nodeName === NodeName.Assign) {
+                analyzeAssign(scope, init);
+            } else if (init.nodeName === NodeName.InitList) {
+                analyzeInitList(scope, init, undefined);
+            }
         }
+
+        return undefined;
+    }
+
+    const matcher: InitListMatcher = {
+        scope: scope,
+        templateTranslator: expectedType.templateTranslator,
+        repeatSameCounts: new Map()
+    };
+
+    matchInitListPattern(matcher, initList, listPattern);
+
+    return expectedType;
+}
+
+function findListPatternOfType(type: ResolvedType): ListPatternList | undefined {
+    if (type.typeOrFunc.isFunction() || type.scopePath === undefined) return undefined;
+
+    const typeScope = resolveActiveScope(type.scopePath).lookupScope(type.identifierText);
+    if (typeScope === undefined) return undefined;
+
+    // Find the list constructor or the list factory of the type.
+    for (const symbol of typeScope.symbolTable.values()) {
+        if (symbol.isFunctionHolder() === false) continue;
+
+        const listPattern = symbol.overloadList.find(overload => overload.listPattern !== undefined)?.listPattern;
+        if (listPattern !== undefined) return listPattern;
     }
 
-    // TODO: InitList 型判定
     return undefined;
 }
 
+interface InitListMatcher {
+    readonly scope: SymbolScope;
+    readonly templateTranslator: TemplateTranslator | undefined;
+    // The number of elements matched with each 'repeat_same' entry.
+    readonly repeatSameCounts: Map<ListPatternRepeat, number>;
+}
+
+function matchInitListPattern(matcher: InitListMatcher, initList: NodeInitList, pattern: ListPatternList) {
+    const elements = initList.initList;
+
+    let elementIndex = 0;
+    for (const entry of pattern.entries) {
+        if (entry.kind === ListPatternKind.Repeat) {
+            // The repeated entry consumes the rest of the elements.
+            // e.g., the caret in 'array<int> a = {1, $C$}' expects 'int'
+            const repeatedType = entry.entry.kind === ListPatternKind.Type
+                ? applyTemplateTranslator(entry.entry.type, matcher.templateTranslator)
+                : undefined;
+            if (repeatedType !== undefined) pushInitListElementInfo(initList.nodeRange, repeatedType);
+
+            const repeatedCount = elements.length - elementIndex;
+            for (; elementIndex < elements.length; elementIndex++) {
+                matchInitListElement(matcher, elements[elementIndex], entry.entry);
+            }
+
+            if (entry.isSame) checkRepeatSameCount(matcher, initList, entry, repeatedCount);
+
+            continue;
+        }
+
+        if (elementIndex >= elements.length) {
+            analyzerDiagnostic.error(
+                initList.nodeRange.getBoundingLocation(),
+                `Too few elements in the initializer list. Expected ${countRequiredEntries(pattern)}.`
+            );
+            return;
+        }
+
+        matchInitListElement(matcher, elements[elementIndex], entry);
+        elementIndex++;
+    }
+
+    for (; elementIndex < elements.length; elementIndex++) {
+        const element = elements[elementIndex];
+        analyzerDiagnostic.error(element.nodeRange.getBoundingLocation(), `Too many elements in the initializer list.`);
+
+        if (element.nodeName === NodeName.Assign) analyzeAssign(matcher.scope, element);
+        else analyzeInitList(matcher.scope, element, undefined);
+    }
+}
+
+function matchInitListElement(matcher: InitListMatcher, element: NodeAssign | NodeInitList, entry: ListPatternEntry) {
+    if (entry.kind === ListPatternKind.List) {
+        if (element.nodeName === NodeName.InitList) {
+            matchInitListPattern(matcher, element, entry);
+        } else {
+            analyzeAssign(matcher.scope, element);
+            analyzerDiagnostic.error(element.nodeRange.getBoundingLocation(), `Expected a nested initializer list.`);
+        }
+
+        return;
+    }
+
+    if (entry.kind === ListPatternKind.Repeat) {
+        // A repeat entry appears only inside a list, but we handle it just in case.
+        matchInitListElement(matcher, element, entry.entry);
+        return;
+    }
+
+    const expectedType = entry.type !== undefined
+        ? applyTemplateTranslator(entry.type, matcher.templateTranslator)
+        : undefined;
+
+    if (expectedType !== undefined) pushInitListElementInfo(element.nodeRange, expectedType);
+
+    if (element.nodeName === NodeName.Assign) {
+        const elementType = analyzeAssign(matcher.scope, element);
+        assertTypeCast(elementType, expectedType, element.nodeRange);
+    } else {
+        // e.g., '{1, 2}' in 'array<array<int>> a = {{1, 2}, {3}}'
+        if (expectedType?.typeOrFunc.isType() === true && expectedType.typeOrFunc.isPrimitiveOrEnum()) {
+            analyzerDiagnostic.error(
+                element.nodeRange.getBoundingLocation(),
+                `Unexpected nested initializer list. Expected an element of '${stringifyResolvedType(expectedType)}'.`
+            );
+        }
+
+        analyzeInitList(matcher.scope, element, expectedType);
+    }
+}
+
+function checkRepeatSameCount(matcher: InitListMatcher, initList: NodeInitList, entry: ListPatternRepeat, count: number) {
+    const expectedCount = matcher.repeatSameCounts.get(entry);
+    if (expectedCount === undefined) {
+        matcher.repeatSameCounts.set(entry, count);
+    } else if (expectedCount !== count) {
+        analyzerDiagnostic.error(
+            initList.nodeRange.getBoundingLocation(),
+            `All initializer lists must have the same number of elements. Expected ${expectedCount}, but got ${count}.`
+        );
+    }
+}
+
+function countRequiredEntries(pattern: ListPatternList): number {
+    return pattern.entries.filter(entry => entry.kind !== ListPatternKind.Repeat).length;
+}
+
+function pushInitListElementInfo(elementRange: TokenRange, expectedType: ResolvedType) {
+    getActiveGlobalScope().info.initListElement.push({
+        elementLocation: elementRange.getBoundingLocation(),
+        expectedType: expectedType
+    });
+}
+
 // BNF: SCOPE         ::= ['::'] {IDENTIFIER '::'} [IDENTIFIER ['<' TYPE {',' TYPE} '>'] '::']
 function analyzeScope(parentScope: SymbolScope, nodeScope: NodeScope): SymbolScope | undefined {
     let scopeIterator =
@@ -442,6 +693,11 @@ function analyzeScopeInternal(parentScope: SymbolScope, nodeScope: NodeScope) {
 
 // BNF: FUNCATTR      ::= {'override' | 'final' | 'explicit' | 'property' | 'delete' | 'nodiscard'}
 
+const loopNodeNames = [NodeName.For, NodeName.ForEach, NodeName.While, NodeName.DoWhile];
+
+// 'break', 'continue' and 'return' cannot go beyond these nodes. e.g., 'break' in a lambda does not exit the outer loop.
+const functionNodeNames = [NodeName.Func, NodeName.VirtualProp, NodeName.Lambda];
+
 // BNF: STATEMENT     ::= (IF | FOR | FOREACH | WHILE | RETURN | STATBLOCK | BREAK | CONTINUE | DOWHILE | SWITCH | EXPRSTAT | TRY)
 function analyzeStatement(scope: SymbolScope, statement: NodeStatement) {
     switch (statement.nodeName) {
@@ -472,17 +728,21 @@ function analyzeStatement(scope: SymbolScope, statement: NodeStatement) {
         break;
     }
     case NodeName.Break:
+        analyzeBreak(scope, statement);
         break;
     case NodeName.Continue:
+        analyzeContinue(scope, statement);
         break;
     case NodeName.DoWhile: {
         const childScope = scope.insertScope(createAnonymousIdentifier(), statement);
         analyzeDoWhile(childScope, statement);
         break;
     }
-    case NodeName.Switch:
-        analyzeSwitch(scope, statement);
+    case NodeName.Switch: {
+        const childScope = scope.insertScope(createAnonymousIdentifier(), statement);
+        analyzeSwitch(childScope, statement);
         break;
+    }
     case NodeName.ExprStat:
         analyzeExprStat(scope, statement);
         break;
@@ -498,13 +758,81 @@ function analyzeStatement(scope: SymbolScope, statement: NodeStatement) {
 
 // BNF: SWITCH        ::= 'switch' '(' ASSIGN ')' '{' {CASE} '}'
 function analyzeSwitch(scope: SymbolScope, ast: NodeSwitch) {
-    analyzeAssign(scope, ast.assign);
-    for (const c of ast.caseList) {
-        analyzeCase(scope, c);
+    let switchType = analyzeAssign(scope, ast.assign);
+    if (switchType !== undefined && isSwitchableType(switchType) === false) {
+        analyzerDiagnostic.error(
+            ast.assign.nodeRange.getBoundingLocation(),
+            `The switch expression must be an integer or enum, but '${stringifyResolvedType(switchType)}' is given.`
+        );
+        switchType = undefined;
+    }
+
+    let defaultCase: NodeCase | undefined;
+    const caseValueMap = new Map<ConstantValue, NodeExpr>();
+    for (const nodeCase of ast.caseList) {
+        if (nodeCase.expr === undefined) {
+            if (defaultCase !== undefined) {
+                analyzerDiagnostic.error(
+                    nodeCase.nodeRange.start.location,
+                    `Multiple 'default' labels in one switch statement.`,
+                    [{location: defaultCase.nodeRange.start.location, message: `The first 'default' label is here.`}]
+                );
+            }
+
+            defaultCase ??= nodeCase;
+        }
+
+        const caseValue = analyzeCase(scope, nodeCase, switchType);
+        if (caseValue === undefined || nodeCase.expr === undefined) continue;
+
+        const duplicatedCase = caseValueMap.get(caseValue);
+        if (duplicatedCase !== undefined) {
+            analyzerDiagnostic.error(
+                nodeCase.expr.nodeRange.getBoundingLocation(),
+                `Duplicate case value '${caseValue}'.`,
+                [{location: duplicatedCase.nodeRange.getBoundingLocation(), message: `The case value is already used here.`}]
+            );
+        } else {
+            caseValueMap.set(caseValue, nodeCase.expr);
+        }
+    }
+
+    if (defaultCase === undefined && switchType !== undefined && getGlobalSettings().exhaustiveEnumSwitch) {
+        checkMissingEnumCases(ast, switchType, new Set(caseValueMap.keys()));
     }
 }
 
+function isSwitchableType(type: ResolvedType): boolean {
+    const typeOrFunc = type.typeOrFunc;
+    return typeOrFunc.isType() && (typeOrFunc.isIntegerType() || typeOrFunc.isEnumType());
+}
+
+function checkMissingEnumCases(ast: NodeSwitch, switchType: ResolvedType, caseValueSet: Set<ConstantValue>) {
+    const enumType = switchType.typeOrFunc;
+    if (enumType.isType() === false || enumType.isEnumType() === false) return;
+
+    const missingMembers: string[] = [];
+    for (const [member, memberValue] of evaluateEnumValues(getActiveGlobalScope(), enumType)) {
+        if (caseValueSet.has(memberValue) === false) missingMembers.push(`'${member.text}'`);
+    }
+
+    if (missingMembers.length === 0) return;
+
+    analyzerDiagnostic.warning(
+        ast.nodeRange.start.location,
+        `The switch statement does not handle ${missingMembers.join(', ')} of '${enumType.identifierText}'.`
+    );
+}
+
 // BNF: BREAK         ::= 'break' ';'
+function analyzeBreak(scope: SymbolScope, nodeBreak: NodeBreak) {
+    const enclosingScope = scope.takeParentByNode([...loopNodeNames, NodeName.Switch, ...functionNodeNames]);
+    if (enclosingScope?.linkedNode !== undefined && functionNodeNames.includes(enclosingScope.linkedNode.nodeName) === false) {
+        return;
+    }
+
+    analyzerDiagnostic.error(nodeBreak.nodeRange.getBoundingLocation(), `'break' must be inside a loop or switch statement.`);
+}
 
 // BNF: FOR           ::= 'for' '(' (VAR | EXPRSTAT) EXPRSTAT [ASSIGN {',' ASSIGN}] ')' STATEMENT
 function analyzeFor(scope: SymbolScope, nodeFor: NodeFor) {
@@ -523,10 +851,19 @@ function analyzeFor(scope: SymbolScope, nodeFor: NodeFor) {
 // FOREACH       ::= 'foreach' '(' TYPE IDENTIFIER {',' TYPE INDENTIFIER} ':' ASSIGN ')' STATEMENT
 function analyzeForEach(scope: SymbolScope, nodeForEach: NodeForEach) {
     // analyze assign first, since vars may need it
-    analyzeAssign(scope, nodeForEach.assign as NodeAssign);
+    const containerType = nodeForEach.assign !== undefined ? analyzeAssign(scope, nodeForEach.assign) : undefined;
+
+    const valueTypes = containerType !== undefined && nodeForEach.assign !== undefined
+        ? checkForEachCall({
+            foreachToken: nodeForEach.nodeRange.start,
+            containerType: containerType,
+            containerRange: nodeForEach.assign.nodeRange,
+            variableIdentifiers: nodeForEach.variables.map(variable => variable.identifier)
+        })
+        : [];
 
-    for (const v of nodeForEach.variables) {
-        analyzeForEachVar(scope, v, nodeForEach.assign as NodeAssign);
+    for (let i = 0; i < nodeForEach.variables.length; i++) {
+        analyzeForEachVar(scope, nodeForEach.variables[i], valueTypes.at(i));
     }
 
     if (nodeForEach.statement !== undefined) analyzeStatement(scope, nodeForEach.statement);
@@ -559,6 +896,15 @@ function analyzeIf(scope: SymbolScope, nodeIf: NodeIf) {
 }
 
 // BNF: CONTINUE      ::= 'continue' ';'
+function analyzeContinue(scope: SymbolScope, nodeContinue: NodeContinue) {
+    // Unlike 'break', 'continue' in a switch statement refers to the enclosing loop.
+    const enclosingScope = scope.takeParentByNode([...loopNodeNames, ...functionNodeNames]);
+    if (enclosingScope?.linkedNode !== undefined && loopNodeNames.includes(enclosingScope.linkedNode.nodeName)) {
+        return;
+    }
+
+    analyzerDiagnostic.error(nodeContinue.nodeRange.getBoundingLocation(), `'continue' must be inside a loop statement.`);
+}
 
 // BNF: EXPRSTAT      ::= [ASSIGN] ';'
 function analyzeExprStat(scope: SymbolScope, exprStat: NodeExprStat) {
@@ -567,6 +913,30 @@ function analyzeExprStat(scope: SymbolScope, exprStat: NodeExprStat) {
     if (assign?.isHandler !== true && assign?.typeOrFunc.isFunction()) {
         analyzerDiagnostic.error(exprStat.assign.nodeRange.getBoundingLocation(), `Function call without handler.`);
     }
+
+    checkDiscardedReturnValue(exprStat.assign);
+}
+
+/**
+ * Reports a warning if the return value of the 'nodiscard' function is discarded, e.g., 'fn();' for 'int fn() nodiscard'
+ */
+function checkDiscardedReturnValue(assign: NodeAssign) {
+    const callerIdentifier = getTrailingFuncCallIdentifier(assign);
+    if (callerIdentifier === undefined) return;
+
+    const referenceList = getActiveGlobalScope().info.reference;
+    for (let i = referenceList.length - 1; i >= 0; i--) {
+        if (referenceList[i].fromToken !== callerIdentifier) continue;
+
+        const callee = referenceList[i].toSymbol;
+        if (callee.isFunction() && callee.linkedNode.nodeName === NodeName.Func && callee.linkedNode.funcAttr?.isNoDiscard) {
+            analyzerDiagnostic.warning(
+                callerIdentifier.location, `The return value of '${callee.identifierText}' should not be discarded.`
+            );
+        }
+
+        return;
+    }
 }
 
 // BNF: TRY           ::= 'try' STATBLOCK 'catch' STATBLOCK
@@ -579,8 +949,11 @@ function analyzeTry(scope: SymbolScope, nodeTry: NodeTry) {
 function analyzeReturn(scope: SymbolScope, nodeReturn: NodeReturn) {
     const returnType = nodeReturn.assign !== undefined ? analyzeAssign(scope, nodeReturn.assign) : undefined;
 
-    const functionScope = scope.takeParentByNode([NodeName.Func, NodeName.VirtualProp, NodeName.Lambda]);
-    if (functionScope === undefined || functionScope.linkedNode === undefined) return;
+    const functionScope = scope.takeParentByNode(functionNodeNames);
+    if (functionScope === undefined || functionScope.linkedNode === undefined) {
+        analyzerDiagnostic.error(nodeReturn.nodeRange.getBoundingLocation(), `'return' must be inside a function.`);
+        return;
+    }
 
     if (functionScope.linkedNode.nodeName === NodeName.Func) {
         // ...
@@ -605,13 +978,7 @@ function analyzeReturn(scope: SymbolScope, nodeReturn: NodeReturn) {
             }
         }
 
-        const expectedReturn = functionSymbol.returnType?.typeOrFunc;
-        if (expectedReturn?.isType() && expectedReturn?.identifierText === 'void') {
-            if (nodeReturn.assign === undefined) return;
-            analyzerDiagnostic.error(nodeReturn.nodeRange.getBoundingLocation(), `Function does not return a value.`);
-        } else {
-            assertTypeCast(returnType, functionSymbol.returnType, nodeReturn.nodeRange);
-        }
+        assertReturnValue(nodeReturn, returnType, functionSymbol.returnType, 'Function');
     } else if (functionScope.linkedNode.nodeName === NodeName.VirtualProp) {
         const key = functionScope.key;
         const isGetter = key.startsWith('get_');
@@ -623,22 +990,77 @@ function analyzeReturn(scope: SymbolScope, nodeReturn: NodeReturn) {
             return;
         }
 
+        if (nodeReturn.assign === undefined) {
+            analyzerDiagnostic.error(nodeReturn.nodeRange.getBoundingLocation(), `Property getter must return a value.`);
+            return;
+        }
+
         const varName = key.substring(4, key.length);
         const functionReturn = functionScope.parentScope?.symbolTable.get(varName);
         if (functionReturn === undefined || functionReturn instanceof SymbolVariable === false) return;
 
-        assertTypeCast(returnType, functionReturn.type, nodeReturn.nodeRange);
+        assertTypeCast(returnType, functionReturn.type, nodeReturn.assign.nodeRange);
     } else if (functionScope.linkedNode.nodeName === NodeName.Lambda) {
-        // TODO: Support for lambda
+        const funcDef = lambdaFuncDefMap.get(functionScope.linkedNode)?.typeOrFunc;
+        if (funcDef === undefined || funcDef.isFunction() === false) return;
+
+        assertReturnValue(nodeReturn, returnType, funcDef.returnType, 'Lambda');
+    }
+}
+
+/**
+ * Checks that the 'return' statement has a value if and only if the function returns a value.
+ * @param nodeReturn The 'return' statement.
+ * @param returnType The type of the returned value.
+ * @param expectedReturn The return type of the function, which is undefined if it is unresolved.
+ * @param functionKind The kind of the function in the message. e.g., 'Function' or 'Lambda'
+ */
+function assertReturnValue(
+    nodeReturn: NodeReturn, returnType: ResolvedType | undefined, expectedReturn: ResolvedType | undefined, functionKind: string
+) {
+    const expectedType = expectedReturn?.typeOrFunc;
+    if (expectedType === undefined) return;
+
+    if (expectedType.isType() && expectedType.identifierText === 'void') {
+        if (nodeReturn.assign === undefined) return;
+        analyzerDiagnostic.error(nodeReturn.nodeRange.getBoundingLocation(), `${functionKind} does not return a value.`);
+    } else if (nodeReturn.assign === undefined) {
+        analyzerDiagnostic.error(
+            nodeReturn.nodeRange.getBoundingLocation(),
+            `${functionKind} must return a value of type '${stringifyResolvedType(expectedReturn)}'.`
+        );
+    } else {
+        assertTypeCast(returnType, expectedReturn, nodeReturn.assign.nodeRange);
     }
 }
 
 // BNF: CASE          ::= (('case' EXPR) | 'default') ':' {STATEMENT}
-function analyzeCase(scope: SymbolScope, nodeCase: NodeCase) {
-    if (nodeCase.expr !== undefined) analyzeExpr(scope, nodeCase.expr);
+function analyzeCase(scope: SymbolScope, nodeCase: NodeCase, switchType: ResolvedType | undefined): ConstantValue | undefined {
+    const caseValue = nodeCase.expr !== undefined ? analyzeCaseValue(scope, nodeCase.expr, switchType) : undefined;
+
     for (const statement of nodeCase.statementList) {
         analyzeStatement(scope, statement);
     }
+
+    return caseValue;
+}
+
+function analyzeCaseValue(scope: SymbolScope, expr: NodeExpr, switchType: ResolvedType | undefined): ConstantValue | undefined {
+    const caseType = analyzeExpr(scope, expr);
+    if (caseType === undefined || switchType === undefined) return undefined;
+
+    if (assertTypeCast(caseType, switchType, expr.nodeRange) === false) return undefined;
+
+    const expectedEnum = switchType.typeOrFunc.isType() && switchType.typeOrFunc.isEnumType()
+        ? switchType.typeOrFunc
+        : undefined;
+    const caseValue = evaluateConstantExpr(scope, expr, expectedEnum);
+    if (typeof caseValue !== 'bigint') {
+        analyzerDiagnostic.error(expr.nodeRange.getBoundingLocation(), `The case value must be an integer constant.`);
+        return undefined;
+    }
+
+    return caseValue;
 }
 
 // BNF: EXPR          ::= EXPRTERM {EXPROP EXPRTERM}
@@ -697,55 +1119,12 @@ function analyzeExpr(scope: SymbolScope, expr: NodeExpr): ResolvedType | undefin
     return outputTerm.length > 0 ? outputTerm[0][0] : undefined;
 }
 
-function getOperatorPrecedence(operator: TokenObject): number {
-    const op = operator.text;
-    switch (op) {
-    case '**':
-        return 0;
-    case '*':
-    case '/':
-    case '%':
-        return -1;
-    case '+':
-    case '-':
-        return -2;
-    case '<<':
-    case '>>':
-    case '>>>':
-        return -3;
-    case '&':
-        return -4;
-    case '^':
-        return -5;
-    case '|':
-        return -6;
-    case '<':
-    case '>':
-    case '<=':
-    case '>=':
-        return -7;
-    case '==':
-    case '!=':
-    case 'xor':
-    case '^^':
-    case 'is':
-    case '!is':
-        return -8;
-    case 'and':
-    case '&&':
-        return -9;
-    case 'or':
-    case '||':
-        return -10;
-    default:
-        assert(false);
-    }
-}
-
 // BNF: EXPRTERM      ::= ([TYPE '='] INITLIST) | ({EXPRPREOP} EXPRVALUE {EXPRPOSTOP})
 function analyzeExprTerm(scope: SymbolScope, ast: NodeExprTerm): ResolvedType | undefined {
     if (ast.exprTerm === 1) {
-        // TODO
+        // e.g., 'array<int> = {1, 2, 3}'
+        const type = ast.type !== undefined ? analyzeType(scope, ast.type) : undefined;
+        return analyzeInitList(scope, ast.initList, type);
     } else if (ast.exprTerm === 2) {
         return analyzeExprTerm2(scope, ast);
     }
@@ -761,9 +1140,10 @@ function analyzeExprTerm2(scope: SymbolScope, exprTerm: NodeExprTerm2) {
         exprValue = analyzeExprPostOp(scope, postOp, exprValue, exprTerm.nodeRange);
     }
 
-    for (const preOp of exprTerm.preOps) {
+    // The prefix operators are applied from the innermost one, e.g., '-~x' is '-(~x)'.
+    for (const preOp of exprTerm.preOps.slice().reverse()) {
         if (exprValue === undefined) break;
-        exprValue = analyzeExprPreOp(scope, preOp, exprValue);
+        exprValue = analyzeExprPreOp(scope, preOp, exprValue, exprTerm.nodeRange);
     }
 
     return exprValue;
@@ -803,6 +1183,8 @@ export function analyzeConstructorCall(
     callerArgList: NodeArgList,
     constructorType: ResolvedType
 ): ResolvedType | undefined {
+    assertInstantiableType(new TokenRange(callerIdentifier, callerArgList.nodeRange.end), constructorType);
+
     const constructor = findConstructorOfType(constructorType);
     if (constructor === undefined || constructor.isFunctionHolder() === false) {
         const callerArgTypes = callerArgList.argList.map(arg => analyzeAssign(scope, arg.assign));
@@ -814,9 +1196,63 @@ export function analyzeConstructorCall(
 }
 
 // BNF: EXPRPREOP     ::= '-' | '+' | '!' | '++' | '--' | '~' | '@'
-function analyzeExprPreOp(scope: SymbolScope, exprPreOp: TokenObject, exprValue: ResolvedType) {
-    // TODO: Implement like opNeg
-    return exprValue;
+function analyzeExprPreOp(scope: SymbolScope, exprPreOp: TokenObject, exprValue: ResolvedType, exprRange: TokenRange) {
+    if (exprPreOp.text === '@') {
+        // e.g., '@obj' takes the handle of 'obj'
+        if (canTakeHandle(exprValue) === false) {
+            analyzerDiagnostic.error(
+                exprRange.getBoundingLocation(),
+                `Cannot take a handle of a value of type '${stringifyResolvedType(exprValue)}'.`
+            );
+            return exprValue;
+        }
+
+        return exprValue.typeOrFunc === builtinNullType ? exprValue : exprValue.cloneWithHandle(true);
+    } else if (exprPreOp.text === '!') {
+        assertTypeCast(exprValue, resolvedBuiltinBool, exprRange);
+        return resolvedBuiltinBool;
+    } else if (exprPreOp.text === '+') {
+        return exprValue;
+    }
+
+    const alias = preOpAliases.get(exprPreOp.text);
+    assert(alias !== undefined);
+
+    return analyzeUnaryOp(scope, exprPreOp, alias, exprValue, exprRange);
+}
+
+const preOpAliases = new Map<string, string>([
+    ['-', 'opNeg'],
+    ['~', 'opCom'],
+    ['++', 'opPreInc'],
+    ['--', 'opPreDec']
+]);
+
+/**
+ * Analyzes the unary operator applied to the operand.
+ * e.g., '-obj' calls 'obj.opNeg()' and 'obj++' calls 'obj.opPostInc()'
+ */
+function analyzeUnaryOp(
+    scope: SymbolScope, callerOperator: TokenObject, alias: string, operand: ResolvedType, operandRange: TokenRange
+): ResolvedType | undefined {
+    const typeOrFunc = operand.typeOrFunc;
+    if (typeOrFunc.isType() && (typeOrFunc.isPrimitiveOrEnum() || typeOrFunc.isTypeParameter === true)) {
+        if (callerOperator.text === '++' || callerOperator.text === '--') {
+            assertWritableValue(callerOperator, operand, operandRange);
+        }
+
+        return operand;
+    }
+
+    return checkOverloadedOperatorCall({
+        callerScope: scope,
+        callerOperator,
+        alias,
+        lhs: operand,
+        lhsRange: operandRange,
+        rhs: [],
+        rhsRange: operandRange
+    });
 }
 
 // BNF: EXPRPOSTOP    ::= ('.' (FUNCCALL | IDENTIFIER)) | ('[' [IDENTIFIER ':'] ASSIGN {',' [IDENTIFIER ':' ASSIGN} ']') | ARGLIST | '++' | '--'
@@ -825,6 +1261,9 @@ function analyzeExprPostOp(scope: SymbolScope, exprPostOp: NodeExprPostOp, exprV
         return analyzeExprPostOp1(scope, exprPostOp, exprValue);
     } else if (exprPostOp.postOp === 2) {
         return analyzeExprPostOp2(scope, exprPostOp, exprValue, exprRange);
+    } else if (exprPostOp.postOp === 4) {
+        const alias = exprPostOp.operator === '++' ? 'opPostInc' : 'opPostDec';
+        return analyzeUnaryOp(scope, exprPostOp.nodeRange.start, alias, exprValue, exprRange);
     }
 }
 
@@ -869,7 +1308,7 @@ function analyzeExprPostOp1(scope: SymbolScope, exprPostOp: NodeExprPostOp1, exp
         if (instanceMember.isFunctionHolder()) {
             // This instance member is a method.
             return analyzeFunctionCall(
-                scope, identifier, member.argList, instanceMember, exprValue.templateTranslator
+                scope, identifier, member.argList, instanceMember, exprValue.templateTranslator, undefined, exprValue.isConst
             );
         }
 
@@ -885,7 +1324,10 @@ function analyzeExprPostOp1(scope: SymbolScope, exprPostOp: NodeExprPostOp1, exp
         return undefined;
     } else {
         // Analyze field access.
-        return analyzeVariableAccess(scope, resolveActiveScope(classScope), identifier);
+        const fieldType = analyzeVariableAccess(scope, resolveActiveScope(classScope), identifier);
+
+        // The fields of a read-only object are also read-only.
+        return exprValue.isConst === true ? fieldType?.cloneAsReadOnlyMember() : fieldType;
     }
 }
 
@@ -893,6 +1335,7 @@ function analyzeExprPostOp1(scope: SymbolScope, exprPostOp: NodeExprPostOp1, exp
 function analyzeExprPostOp2(scope: SymbolScope, exprPostOp: NodeExprPostOp2, exprValue: ResolvedType, exprRange: TokenRange) {
     const args = exprPostOp.indexingList.map(indexer => analyzeAssign(scope, indexer.assign));
     return checkOverloadedOperatorCall({
+        callerScope: scope,
         callerOperator: exprPostOp.nodeRange.end,
         alias: 'opIndex',
         lhs: exprValue,
@@ -912,42 +1355,113 @@ function analyzeCast(scope: SymbolScope, cast: NodeCast): ResolvedType | undefin
 }
 
 // BNF: LAMBDA        ::= 'function' '(' [[TYPE TYPEMOD] [IDENTIFIER] {',' [TYPE TYPEMOD] [IDENTIFIER]}] ')' STATBLOCK
-function analyzeLambda(scope: SymbolScope, lambda: NodeLambda): ResolvedType | undefined {
+function analyzeLambda(scope: SymbolScope, lambda: NodeLambda, expectedType?: ResolvedType): ResolvedType | undefined {
     const childScope = scope.insertScope(createAnonymousIdentifier(), lambda);
 
+    const explicitTypes = lambda.paramList.map(param =>
+        param.type !== undefined ? analyzeType(scope, param.type) : undefined);
+
+    // The lambda is resolved to the funcdef expected from the context, e.g., the parameter type of the callee.
+    // Nothing is reported if no funcdef is expected, e.g., 'auto callback = function() { };'
+    const funcDef = isCompatibleFuncDef(lambda, explicitTypes, expectedType) ? expectedType : undefined;
+    if (funcDef !== undefined) {
+        lambdaFuncDefMap.set(lambda, funcDef);
+    } else if (expectedType !== undefined) {
+        analyzerDiagnostic.error(
+            lambda.nodeRange.start.location,
+            `Lambda expression is not compatible with '${stringifyResolvedType(expectedType)}'.`
+        );
+    }
+
     // Append arguments to the scope
-    for (const param of lambda.paramList) {
+    for (let i = 0; i < lambda.paramList.length; i++) {
+        const param = lambda.paramList[i];
         if (param.identifier === undefined) continue;
 
+        const inferredType = funcDef?.typeOrFunc.isFunction()
+            ? applyTemplateTranslator(funcDef.typeOrFunc.parameterTypes[i], funcDef.templateTranslator)
+            : undefined;
+
         const argument: SymbolVariable = SymbolVariable.create({
             identifierToken: param.identifier,
             scopePath: scope.scopePath,
-            type: param.type !== undefined ? analyzeType(scope, param.type) : undefined,
+            type: explicitTypes[i] ?? inferredType,
             isInstanceMember: false,
             accessRestriction: undefined,
         });
         childScope.insertSymbolAndCheck(argument);
     }
 
-    if (lambda.statBlock !== undefined) analyzeStatBlock(childScope, lambda.statBlock);
+    if (lambda.statBlock !== undefined) {
+        analyzeStatBlock(childScope, lambda.statBlock);
 
-    // TODO: 左辺からラムダ式の型を推定したい
+        const returnType = funcDef?.typeOrFunc.isFunction() ? funcDef.typeOrFunc.returnType : undefined;
+        const returnsValue = returnType !== undefined && returnType.identifierText !== 'void';
+        checkFunctionControlFlow(lambda.statBlock, returnsValue);
+    }
 
-    return undefined;
+    return funcDef;
+}
+
+// The funcdef that each lambda expression is resolved to. This is referenced when checking return statements.
+const lambdaFuncDefMap = new WeakMap<NodeLambda, ResolvedType>();
+
+function isCompatibleFuncDef(
+    lambda: NodeLambda, explicitTypes: (ResolvedType | undefined)[], expectedType: ResolvedType | undefined
+): expectedType is ResolvedType {
+    if (expectedType === undefined) return false;
+
+    const funcDef = expectedType.typeOrFunc;
+    if (funcDef.isFunction() === false || funcDef.linkedNode.nodeName !== NodeName.FuncDef) return false;
+
+    if (funcDef.parameterTypes.length !== lambda.paramList.length) return false;
+
+    // The explicitly typed parameters must be identical to the parameters of the funcdef.
+    return explicitTypes.every((explicitType, i) => {
+        const paramType =
+            normalizeType(applyTemplateTranslator(funcDef.parameterTypes[i], expectedType.templateTranslator));
+        if (explicitType === undefined || paramType === undefined) return true;
+
+        return normalizeType(explicitType)?.equals(paramType) === true;
+    });
+}
+
+/**
+ * Find the funcdef expected for the lambda passed as an argument from the parameter types of the callees.
+ */
+function findExpectedLambdaType(
+    lambda: NodeLambda,
+    argId: number,
+    argName: TokenObject | undefined,
+    callees: readonly SymbolFunction[],
+    calleeTemplateTranslator: TemplateTranslator | undefined
+): ResolvedType | undefined {
+    const candidates: ResolvedType[] = [];
+    for (const callee of callees) {
+        const paramId = argName !== undefined
+            ? callee.linkedNode.paramList.findIndex(param => param.identifier?.text === argName.text)
+            : argId;
+        if (paramId === -1) continue;
+
+        const paramType = callee.linkedNode.paramList.at(-1)?.isVariadic && paramId >= callee.parameterTypes.length
+            ? callee.parameterTypes.at(-1)
+            : callee.parameterTypes[paramId];
+
+        const expectedType = applyTemplateTranslator(paramType, calleeTemplateTranslator);
+        if (expectedType?.typeOrFunc.isFunction()) candidates.push(expectedType);
+    }
+
+    // Prefer the funcdef whose number of parameters matches the lambda.
+    return candidates.find(candidate =>
+            candidate.typeOrFunc.isFunction() && candidate.typeOrFunc.parameterTypes.length === lambda.paramList.length)
+        ?? candidates.at(0);
 }
 
 // BNF: LITERAL       ::= NUMBER | STRING | BITS | 'true' | 'false' | 'null'
 function analyzeLiteral(scope: SymbolScope, literal: NodeLiteral): ResolvedType | undefined {
     const literalValue = literal.value;
     if (literalValue.isNumberToken()) {
-        switch (literalValue.numberLiteral) {
-        case NumberLiteral.Integer:
-            return resolvedBuiltinInt;
-        case NumberLiteral.Float:
-            return resolvedBuiltinFloat;
-        case NumberLiteral.Double:
-            return resolvedBuiltinDouble;
-        }
+        return analyzeNumberLiteral(literalValue);
     }
 
     if (literalValue.kind === TokenKind.String) {
@@ -964,10 +1478,58 @@ function analyzeLiteral(scope: SymbolScope, literal: NodeLiteral): ResolvedType
         return resolvedBuiltinBool;
     }
 
-    // FIXME: Handling null?
+    if (literalValue.text === 'null') {
+        return resolvedBuiltinNull;
+    }
+
     return undefined;
 }
 
+const maxInt32Value = (1n << 31n) - 1n;
+
+const maxInt64Value = (1n << 63n) - 1n;
+
+const maxUInt64Value = (1n << 64n) - 1n;
+
+const maxUInt32Value = (1n << 32n) - 1n;
+
+/**
+ * Decimal integer literals above the range of 'int' are 'int64', and those above the range of 'int64' are 'uint64'.
+ * Hexadecimal, binary and octal literals are 'uint', or 'uint64' if they do not fit in 32 bits.
+ * e.g., '2147483648' is 'int64', '0xFF' is 'uint', '0x100000000' is 'uint64'
+ */
+function analyzeNumberLiteral(token: TokenNumber): ResolvedType {
+    const value = evaluateNumberLiteral(token);
+    switch (token.numberLiteral) {
+    case NumberLiteral.Integer:
+        // The value is undefined if the literal is malformed, which is reported by the tokenizer.
+        if (/^0[xXbBoO]/.test(token.text)) {
+            if (typeof value !== 'bigint' || value <= maxUInt32Value) return resolvedBuiltinUInt;
+        } else {
+            if (typeof value !== 'bigint' || value <= maxInt32Value) return resolvedBuiltinInt;
+            if (value <= maxInt64Value) return resolvedBuiltinInt64;
+        }
+
+        if (value > maxUInt64Value) {
+            analyzerDiagnostic.error(token.location, `The integer literal '${token.text}' exceeds the range of 'uint64'.`);
+        }
+
+        return resolvedBuiltinUInt64;
+    case NumberLiteral.Float:
+        if (value !== undefined && canRepresentConstant(value, builtinFloatType) === false) {
+            analyzerDiagnostic.error(token.location, `The floating-point literal '${token.text}' exceeds the range of 'float'.`);
+        }
+
+        return resolvedBuiltinFloat;
+    case NumberLiteral.Double:
+        if (value !== undefined && Number.isFinite(value) === false) {
+            analyzerDiagnostic.error(token.location, `The floating-point literal '${token.text}' exceeds the range of 'double'.`);
+        }
+
+        return resolvedBuiltinDouble;
+    }
+}
+
 // BNF: FUNCCALL      ::= SCOPE IDENTIFIER ARGLIST
 function analyzeFuncCall(scope: SymbolScope, funcCall: NodeFuncCall): ResolvedType | undefined {
     let searchScope = scope;
@@ -1016,7 +1578,11 @@ function analyzeFuncCall(scope: SymbolScope, funcCall: NodeFuncCall): ResolvedTy
         return undefined;
     }
 
-    return analyzeFunctionCall(scope, funcCall.identifier, funcCall.argList, calleeSymbol, undefined);
+    // A method called without 'this' inside a const method must be const as well.
+    const isImplicitThisCall = calleeSymbol.first.isInstanceMember && isInsideConstMethod(scope);
+    return analyzeFunctionCall(
+        scope, funcCall.identifier, funcCall.argList, calleeSymbol, undefined, undefined, isImplicitThisCall
+    );
 }
 
 function analyzeOpCallCaller(scope: SymbolScope, funcCall: NodeFuncCall, calleeVariable: SymbolVariable) {
@@ -1046,7 +1612,8 @@ function analyzeFunctionCall(
     callerArgList: NodeArgList,
     calleeFuncHolder: SymbolFunctionHolder,
     calleeTemplateTranslator: TemplateTranslator | undefined,
-    calleeDelegateVariable?: SymbolVariable
+    calleeDelegateVariable?: SymbolVariable,
+    callerIsConst?: boolean
 ) {
     getActiveGlobalScope().info.functionCall.push({
         callerIdentifier: callerIdentifier,
@@ -1055,22 +1622,32 @@ function analyzeFunctionCall(
         calleeTemplateTranslator: calleeTemplateTranslator,
     });
 
-    const callerArgTypes = analyzeArgList(scope, callerArgList);
+    const callerArgTypes = analyzeArgList(scope, callerArgList, calleeFuncHolder, calleeTemplateTranslator);
     const callerArgs =
         callerArgList.argList.map((arg, i) => ({
             name: arg.identifier,
             range: arg.assign.nodeRange,
-            type: callerArgTypes[i]
+            type: callerArgTypes[i],
+            constantValue: evaluateConstantAssign(scope, arg.assign)
         }));
 
-    return checkFunctionCall({
+    const evaluated = evaluateFunctionCall({
         callerIdentifier: callerIdentifier,
         callerRange: callerArgList.nodeRange,
         callerArgs: callerArgs,
         calleeFuncHolder: calleeFuncHolder,
         calleeTemplateTranslator: calleeTemplateTranslator,
-        calleeDelegateVariable: calleeDelegateVariable
+        calleeDelegateVariable: calleeDelegateVariable,
+        callerIsConst: callerIsConst,
+        callerScope: scope
     });
+
+    // The lambdas are analyzed with the funcdef of the overload resolved above.
+    const callees = evaluated.bestMatching !== undefined ? [evaluated.bestMatching] : calleeFuncHolder.toList();
+    analyzeLambdaArguments(scope, callerArgList, callees, calleeTemplateTranslator);
+
+    evaluated.sideEffect();
+    return evaluated.returnType;
 }
 
 // BNF: VARACCESS     ::= SCOPE IDENTIFIER
@@ -1110,26 +1687,108 @@ function analyzeVariableAccess(
         return undefined;
     }
 
-    if (canAccessInstanceMember(currentScope, found.symbol) === false) {
-        analyzerDiagnostic.error(varIdentifier.location, `'${varIdentifier.text}' is not public member.`);
+    const foundSymbol = found.symbol.toList()[0];
+    if (foundSymbol.isType() === false && canAccessInstanceMember(currentScope, foundSymbol) === false) {
+        analyzerDiagnostic.error(varIdentifier.location, stringifyInaccessibleMember(foundSymbol), [{
+            location: foundSymbol.identifierToken.location,
+            message: `'${foundSymbol.identifierText}' is declared here.`
+        }]);
         return undefined;
     }
 
-    if (found.symbol.toList()[0].identifierToken.location.path !== '') {
+    if (foundSymbol.identifierToken.location.path !== '') {
         // Keywords such as 'this' have an empty identifierToken. They do not add to the reference list.
         getActiveGlobalScope().info.reference.push({
-            toSymbol: found.symbol.toList()[0],
+            toSymbol: foundSymbol,
             fromToken: varIdentifier
         });
     }
 
     if (found.symbol instanceof SymbolVariable) {
+        // Instance members are read-only inside const methods. e.g., 'value' in 'int get() const { return value; }'
+        const isImplicitThisAccess = currentScope === accessScope &&
+            (found.symbol.isInstanceMember || found.symbol.identifierToken === builtinThisToken);
+        if (isImplicitThisAccess && isInsideConstMethod(currentScope)) {
+            return found.symbol.type?.cloneAsReadOnlyMember();
+        }
+
         return found.symbol.type;
     } else {
         return new ResolvedType(found.symbol.first);
     }
 }
 
+/**
+ * Whether the scope is inside a const method, where the members of 'this' are read-only.
+ * e.g., 'int get() const { ... }' or 'int value { get const { ... } }'
+ */
+function isInsideConstMethod(scope: SymbolScope): boolean {
+    const methodScope = scope.takeParentByNode([NodeName.Func, NodeName.VirtualProp]);
+    const methodNode = methodScope?.linkedNode;
+    if (methodNode?.nodeName === NodeName.Func) {
+        return methodNode.isConst;
+    } else if (methodNode?.nodeName === NodeName.VirtualProp) {
+        const accessor = methodScope?.key.startsWith('get_') ? methodNode.getter : methodNode.setter;
+        return accessor?.isConst === true;
+    }
+
+    return false;
+}
+
+/**
+ * Reports an error if the handle cannot be rebound to the value.
+ * e.g., '@handle = @obj' where 'handle' is 'Object@ const', 'obj' is 'const Object' or 'obj' is another type
+ */
+function assertHandleAssignment(
+    lhs: ResolvedType | undefined, rhs: ResolvedType | undefined, lhsRange: TokenRange, rhsRange: TokenRange
+) {
+    if (lhs === undefined) return;
+
+    if (canHoldHandle(lhs) === false) {
+        analyzerDiagnostic.error(
+            lhsRange.getBoundingLocation(),
+            `Cannot assign a handle to a value of type '${stringifyResolvedType(lhs)}', which is not a handle.`
+        );
+        return;
+    }
+
+    if (lhs.isHandleConst === true) {
+        analyzerDiagnostic.error(lhsRange.getBoundingLocation(), `Cannot rebind a read-only handle.`);
+        return;
+    }
+
+    if (assertTypeCast(rhs, lhs, rhsRange) === false) return;
+
+    assertHandleConstness(lhs, rhs, rhsRange);
+}
+
+/**
+ * Reports an error if a read-only object is referred to by a handle to a non-const object.
+ * e.g., 'Object@ handle = constObj;' where 'constObj' is 'const Object@'
+ */
+function assertHandleConstness(dest: ResolvedType | undefined, src: ResolvedType | undefined, srcRange: TokenRange) {
+    if (dest?.isHandler !== true || dest.isConst === true || src?.isConst !== true) return;
+    if (dest.typeOrFunc.isFunction() || src.typeOrFunc === builtinNullType) return;
+
+    analyzerDiagnostic.error(
+        srcRange.getBoundingLocation(),
+        `Cannot refer to a read-only object of type '${stringifyResolvedType(src)}' with a non-const handle.`
+    );
+}
+
+/**
+ * Reports an error if the value to be modified is read-only.
+ * e.g., 'value = 1' where 'value' is 'const int'
+ */
+function assertWritableValue(operator: TokenObject, target: ResolvedType | undefined, targetRange: TokenRange) {
+    if (target?.isConst !== true) return;
+
+    analyzerDiagnostic.error(
+        targetRange.getBoundingLocation(),
+        `'${operator.text}' cannot be applied to a read-only value of type '${stringifyResolvedType(target)}'.`
+    );
+}
+
 // AngelScript allows ambiguous enum member access.
 function analyzeEnumMemberAccess(currentScope: SymbolScope, accessScope: SymbolScope, varIdentifier: TokenObject): ResolvedType | undefined {
     // If no access scope is specified, start with a global.
@@ -1176,6 +1835,7 @@ function analyzeEnumMemberAccess(currentScope: SymbolScope, accessScope: SymbolS
             nodeName: NodeName.Enum,
             nodeRange: new TokenRange(varIdentifier, varIdentifier),
             scopeRange: new TokenRange(varIdentifier, varIdentifier),
+            metadata: [],
             entity: undefined,
             identifier: varIdentifier,
             memberList: [],
@@ -1189,14 +1849,57 @@ function analyzeEnumMemberAccess(currentScope: SymbolScope, accessScope: SymbolS
 }
 
 // BNF: ARGLIST       ::= '(' [IDENTIFIER ':'] ASSIGN {',' [IDENTIFIER ':'] ASSIGN} ')'
-function analyzeArgList(scope: SymbolScope, argList: NodeArgList): (ResolvedType | undefined)[] {
+function analyzeArgList(
+    scope: SymbolScope,
+    argList: NodeArgList,
+    calleeFuncHolder: SymbolFunctionHolder,
+    calleeTemplateTranslator: TemplateTranslator | undefined
+): (ResolvedType | undefined)[] {
     const types: (ResolvedType | undefined)[] = [];
-    for (const arg of argList.argList) {
-        types.push(analyzeAssign(scope, arg.assign));
+    for (let i = 0; i < argList.argList.length; i++) {
+        const arg = argList.argList[i];
+
+        const lambda = getLambdaArgument(arg);
+        if (lambda !== undefined) {
+            // The lambda is analyzed after the overload resolution.
+            // Until then, its type is known only if every callee expects the same funcdef.
+            const expectedTypes = calleeFuncHolder.toList()
+                .map(callee => findExpectedLambdaType(lambda, i, arg.identifier, [callee], calleeTemplateTranslator))
+                .filter((type): type is ResolvedType => type !== undefined);
+            const isUnique = expectedTypes.every(type => type.typeOrFunc === expectedTypes[0].typeOrFunc);
+            types.push(isUnique ? expectedTypes.at(0) : undefined);
+        } else {
+            types.push(analyzeAssign(scope, arg.assign));
+        }
     }
     return types;
 }
 
+/**
+ * Analyzes the lambdas passed as arguments with the funcdefs expected by the callees.
+ * e.g., 'function(a, b) { ... }' in 'sort(function(a, b) { ... })'
+ */
+function analyzeLambdaArguments(
+    scope: SymbolScope,
+    argList: NodeArgList,
+    callees: readonly SymbolFunction[],
+    calleeTemplateTranslator: TemplateTranslator | undefined
+) {
+    for (let i = 0; i < argList.argList.length; i++) {
+        const arg = argList.argList[i];
+
+        const lambda = getLambdaArgument(arg);
+        if (lambda === undefined) continue;
+
+        const expectedType = findExpectedLambdaType(lambda, i, arg.identifier, callees, calleeTemplateTranslator);
+        analyzeLambda(scope, lambda, expectedType);
+    }
+}
+
+function getLambdaArgument(arg: NodeArgList['argList'][number]): NodeLambda | undefined {
+    return arg.assign.tail === undefined ? getLambdaInCondition(arg.assign.condition) : undefined;
+}
+
 // BNF: ASSIGN        ::= CONDITION [ ASSIGNOP ASSIGN ]
 function analyzeAssign(scope: SymbolScope, assign: NodeAssign): ResolvedType | undefined {
     // Perform a left-fold operation
@@ -1204,7 +1907,28 @@ function analyzeAssign(scope: SymbolScope, assign: NodeAssign): ResolvedType | u
     let lhs = analyzeCondition(scope, assign.condition);
     for (; ;) {
         if (cursor.tail === undefined) break;
-        const rhs = analyzeCondition(scope, cursor.tail.assign.condition);
+
+        const lambda = cursor.tail.operator.text === '=' && cursor.tail.assign.tail === undefined
+            ? getLambdaInCondition(cursor.tail.assign.condition)
+            : undefined;
+        const rhs = lambda !== undefined
+            ? analyzeLambda(scope, lambda, lhs) // e.g., 'callback = function(a, b) { ... };'
+            : analyzeCondition(scope, cursor.tail.assign.condition);
+
+        // '@handle = ...' rebinds the handle, so the referenced object is not modified.
+        if (isHandleExpr(cursor.condition) === false) {
+            assertWritableValue(cursor.tail.operator, lhs, cursor.condition.nodeRange);
+        } else if (cursor.tail.operator.text === '=') {
+            // The handle is rebound without calling 'opAssign'.
+            assertHandleAssignment(lhs, rhs, cursor.condition.nodeRange, cursor.tail.assign.nodeRange);
+            cursor = cursor.tail.assign;
+            continue;
+        }
+
+        if (cursor.tail.operator.text === '=') {
+            checkConstantConversion(evaluateConstantAssign(scope, cursor.tail.assign), lhs, cursor.tail.assign.nodeRange);
+        }
+
         lhs = analyzeAssignOp(
             scope,
             cursor.tail.operator,
@@ -1277,7 +2001,7 @@ function analyzeBitOp(
 
     const [alias, alias_r] = aliases;
     return checkOverloadedOperatorCall({
-        callerOperator, alias, alias_r, lhs, lhsRange, rhs, rhsRange
+        callerScope: scope, callerOperator, alias, alias_r, lhs, lhsRange, rhs, rhsRange
     });
 }
 
@@ -1304,7 +2028,7 @@ function analyzeMathOp(
 
     const [alias, alias_r] = aliases;
     return checkOverloadedOperatorCall({
-        callerOperator, alias, alias_r, lhs, lhsRange, rhs, rhsRange
+        callerScope: scope, callerOperator, alias, alias_r, lhs, lhsRange, rhs, rhsRange
     });
 }
 
@@ -1323,13 +2047,39 @@ function analyzeCompOp(
     lhs: ResolvedType, rhs: ResolvedType,
     lhsRange: TokenRange, rhsRange: TokenRange
 ): ResolvedType | undefined {
+    if (lhs.typeOrFunc === builtinNullType || rhs.typeOrFunc === builtinNullType) {
+        // e.g., 'obj is null'
+        const [other, otherRange] = lhs.typeOrFunc === builtinNullType ? [rhs, rhsRange] : [lhs, lhsRange];
+        if (canHoldHandle(other) === false) {
+            analyzerDiagnostic.error(
+                otherRange.getBoundingLocation(),
+                `'null' cannot be compared with a value of type '${stringifyResolvedType(other)}', which is not a handle.`
+            );
+        }
+
+        return resolvedBuiltinBool;
+    }
+
+    if (callerOperator.text === 'is' || callerOperator.text === '!is') {
+        // e.g., 'a is b' compares the identity of the objects referred to by the handles.
+        for (const [operand, operandRange] of [[lhs, lhsRange], [rhs, rhsRange]] as const) {
+            if (canTakeHandle(operand)) continue;
+
+            analyzerDiagnostic.error(
+                operandRange.getBoundingLocation(),
+                `'${callerOperator.text}' requires handles, but '${stringifyResolvedType(operand)}' is not a handle.`
+            );
+            return resolvedBuiltinBool;
+        }
+    }
+
     if (canComparisonOperatorCall(lhs, rhs)) return resolvedBuiltinBool;
 
     const alias = compOpAliases.get(callerOperator.text);
     assert(alias !== undefined);
 
     return checkOverloadedOperatorCall({
-        callerOperator, alias, lhs, lhsRange, rhs, rhsRange
+        callerScope: scope, callerOperator, alias, lhs, lhsRange, rhs, rhsRange
     });
 }
 
@@ -1365,7 +2115,7 @@ function analyzeAssignOp(
     if (lhs === undefined || rhs === undefined) return undefined;
 
     if (callerOperator.text === '=') {
-        if (checkTypeCast(rhs, lhs)) return lhs;
+        if (checkTypeCast(rhs, lhs, rhsRange)) return lhs;
     }
 
     const numberOperatorCall = evaluateNumberOperatorCall(lhs, rhs);
@@ -1375,7 +2125,7 @@ function analyzeAssignOp(
     assert(alias !== undefined);
 
     return checkOverloadedOperatorCall({
-        callerOperator, alias, lhs, lhsRange, rhs, rhsRange
+        callerScope: scope, callerOperator, alias, lhs, lhsRange, rhs, rhsRange
     });
 }
 
@@ -1415,5 +2165,8 @@ export function analyzeAfterHoisted(path: string, hoistResult: HoistResult): Ana
         if (next !== undefined) next();
     }
 
+    checkUnusedSymbols(globalScope);
+    checkDeprecatedReferences(globalScope);
+
     return new AnalyzerScope(path, globalScope);
 }
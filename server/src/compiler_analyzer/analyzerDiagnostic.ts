@@ -7,23 +7,87 @@ const sourceName = 'AngelScript - Analyzer';
 
 const s_diagnostics: lsp.Diagnostic[] = [];
 
+/**
+ * The code analyzed more than once in a session.
+ * e.g., the members of a mixin class are analyzed in each class that includes it.
+ */
+interface RepeatedCode {
+    location: TextLocation;
+    isReported: boolean; // False if the diagnostics belong to another file.
+}
+
+const s_repeatedCodes: RepeatedCode[] = [];
+
+const s_repeatedDiagnosticKeys = new Set<string>();
+
 function beginSession() {
     s_diagnostics.length = 0;
+    s_repeatedCodes.length = 0;
+    s_repeatedDiagnosticKeys.clear();
 }
 
-function error(location: TextLocation, message: string) {
+/**
+ * Marks the code analyzed more than once in the session.
+ * The diagnostics in it are reported once if `isReported` is true, and never otherwise.
+ */
+function repeatedCode(location: TextLocation, isReported: boolean) {
+    s_repeatedCodes.push({location: location, isReported: isReported});
+}
+
+function pushDiagnostic(location: TextLocation, diagnostic: lsp.Diagnostic) {
+    const repeated = s_repeatedCodes.find(code =>
+        code.location.path === location.path && code.location.contains(location));
+    if (repeated !== undefined) {
+        if (repeated.isReported === false) return;
+
+        const {start, end} = location;
+        const key = `${diagnostic.severity}:${start.line}:${start.character}:${end.line}:${end.character}:${diagnostic.message}`;
+        if (s_repeatedDiagnosticKeys.has(key)) return;
+
+        s_repeatedDiagnosticKeys.add(key);
+    }
+
+    s_diagnostics.push(diagnostic);
+}
+
+/**
+ * Additional location related to the diagnostic, e.g., the declaration of the interface method to be implemented.
+ */
+export interface RelatedInformation {
+    location: TextLocation;
+    message: string;
+}
+
+function error(location: TextLocation, message: string, relatedInformation?: RelatedInformation[]) {
     const severity = getGlobalSettings().suppressAnalyzerErrors ? lsp.DiagnosticSeverity.Warning : lsp.DiagnosticSeverity.Error;
 
-    s_diagnostics.push({
+    pushDiagnostic(location, {
         severity: severity,
         range: location.clone(),
         message: message,
         source: sourceName,
+        relatedInformation: relatedInformation?.map(info => ({
+            location: {uri: info.location.path, range: info.location.clone()},
+            message: info.message
+        }))
+    });
+}
+
+function warning(location: TextLocation, message: string, relatedInformation?: RelatedInformation[]) {
+    pushDiagnostic(location, {
+        severity: lsp.DiagnosticSeverity.Warning,
+        range: location.clone(),
+        message: message,
+        source: sourceName,
+        relatedInformation: relatedInformation?.map(info => ({
+            location: {uri: info.location.path, range: info.location.clone()},
+            message: info.message
+        }))
     });
 }
 
 function hint(location: TextLocation, hint: ActionHint, message: string) {
-    s_diagnostics.push({
+    pushDiagnostic(location, {
         severity: lsp.DiagnosticSeverity.Hint,
         range: location.clone(),
         message: message,
@@ -32,6 +96,30 @@ function hint(location: TextLocation, hint: ActionHint, message: string) {
     });
 }
 
+/**
+ * Reports a hint for the code that has no effect. The editor fades out the code.
+ * e.g., unreachable code after 'return'
+ */
+function unnecessary(location: TextLocation, message: string) {
+    pushDiagnostic(location, {
+        severity: lsp.DiagnosticSeverity.Hint,
+        range: location.clone(),
+        message: message,
+        source: sourceName,
+        tags: [lsp.DiagnosticTag.Unnecessary]
+    });
+}
+
+function deprecated(location: TextLocation, message: string) {
+    pushDiagnostic(location, {
+        severity: lsp.DiagnosticSeverity.Hint,
+        range: location.clone(),
+        message: message,
+        source: sourceName,
+        tags: [lsp.DiagnosticTag.Deprecated]
+    });
+}
+
 function endSession(): lsp.Diagnostic[] {
     const result = s_diagnostics.slice();
     s_diagnostics.length = 0;
@@ -41,6 +129,10 @@ function endSession(): lsp.Diagnostic[] {
 export const analyzerDiagnostic = {
     beginSession,
     error,
+    warning,
     hint,
+    unnecessary,
+    deprecated,
+    repeatedCode,
     endSession,
 } as const;
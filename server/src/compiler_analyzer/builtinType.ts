@@ -32,6 +32,12 @@ export const resolvedBuiltinInt: ResolvedType = new ResolvedType(builtinIntType)
 export const builtinUIntType = builtinNumberTypeMap.get('uint')!;
 export const resolvedBuiltinUInt: ResolvedType = new ResolvedType(builtinUIntType);
 
+export const builtinInt64Type = builtinNumberTypeMap.get('int64')!;
+export const resolvedBuiltinInt64: ResolvedType = new ResolvedType(builtinInt64Type);
+
+export const builtinUInt64Type = builtinNumberTypeMap.get('uint64')!;
+export const resolvedBuiltinUInt64: ResolvedType = new ResolvedType(builtinUInt64Type);
+
 export const builtinFloatType = builtinNumberTypeMap.get('float')!;
 export const resolvedBuiltinFloat: ResolvedType = new ResolvedType(builtinFloatType);
 
@@ -54,6 +60,11 @@ export const builtinAnyType: SymbolType = createBuiltinType(TokenReserved.create
 
 export const builtinAutoType: SymbolType = createBuiltinType(TokenReserved.createVirtual('auto'));
 
+// The type of the 'null' literal, which can be converted to any handle.
+export const builtinNullType: SymbolType = createBuiltinType(TokenReserved.createVirtual('null'));
+
+export const resolvedBuiltinNull: ResolvedType = new ResolvedType(builtinNullType);
+
 export function tryGetBuiltinType(token: TokenObject): SymbolType | undefined {
     if (token.kind !== TokenKind.Reserved) return undefined;
 
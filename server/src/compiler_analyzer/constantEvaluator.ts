@@ -0,0 +1,564 @@
+import {
+    NodeAssign,
+    NodeConstructCall,
+    NodeEnum,
+    NodeExpr,
+    NodeExprTerm,
+    NodeExprValue,
+    NodeLiteral,
+    NodeName,
+    NodeScope,
+    NodeVarAccess,
+    ParsedEnumMember
+} from "../compiler_parser/nodes";
+import {NumberLiteral, TokenKind, TokenNumber, TokenObject} from "../compiler_tokenizer/tokenObject";
+import {SymbolGlobalScope, SymbolScope} from "./symbolScope";
+import {SymbolType, SymbolVariable} from "./symbolObject";
+import {findSymbolWithParent} from "./symbolUtils";
+import {getIdentifierInNodeType, getOperatorPrecedence} from "../compiler_parser/nodesUtils";
+import {tryGetBuiltinType} from "./builtinType";
+import {getGlobalSettings} from "../core/settings";
+
+/**
+ * The value of an expression evaluated at compile time.
+ * Integers are represented by bigint so that 64-bit values are not rounded, and floating-point numbers by number.
+ */
+export type ConstantValue = bigint | number | boolean;
+
+interface EvaluationState {
+    readonly globalScope: SymbolGlobalScope;
+    // The enum type expected by the context. e.g., 'Color' in 'switch (color) { case RED: ... }'
+    readonly expectedEnum: SymbolType | undefined;
+    // The initializers being evaluated, which are tracked to detect circular references.
+    readonly visitingSet: Set<NodeAssign | ParsedEnumMember>;
+    // The values of the enum members evaluated so far, which avoid evaluating the preceding members repeatedly.
+    readonly enumMemberCache: Map<ParsedEnumMember, bigint>;
+}
+
+/**
+ * Evaluates the expression at compile time.
+ * Returns undefined if the expression is not a constant expression.
+ * @param scope The scope in which the identifiers of the expression are resolved.
+ * @param expr The expression to evaluate.
+ * @param expectedEnum The enum type used to resolve the unqualified enum members.
+ */
+export function evaluateConstantExpr(
+    scope: SymbolScope, expr: NodeExpr, expectedEnum?: SymbolType
+): ConstantValue | undefined {
+    return evaluateExpr(createEvaluationState(scope.getGlobalScope(), expectedEnum), scope, expr);
+}
+
+/**
+ * Evaluates the value of the enum member or the read-only variable with a constant initializer.
+ * An enum member without an initializer takes the value of the previous member plus one, or zero if it is the first one.
+ */
+export function evaluateConstantVariable(globalScope: SymbolGlobalScope, variable: SymbolVariable): ConstantValue | undefined {
+    return evaluateVariable(createEvaluationState(globalScope, undefined), variable);
+}
+
+/**
+ * Evaluates the values of all members of the enum.
+ * The members whose values cannot be evaluated are not contained in the result.
+ */
+export function evaluateEnumValues(globalScope: SymbolGlobalScope, enumType: SymbolType): Map<TokenObject, bigint> {
+    const result = new Map<TokenObject, bigint>();
+    if (enumType.linkedNode?.nodeName !== NodeName.Enum) return result;
+
+    const state = createEvaluationState(globalScope, undefined);
+    for (const member of enumType.linkedNode.memberList) {
+        const value = evaluateEnumMember(state, enumType, member.identifier);
+        if (value !== undefined) result.set(member.identifier, value);
+    }
+
+    return result;
+}
+
+/**
+ * Evaluates the assignment expression at compile time. e.g., 'FLAG ? 1 : 2'
+ * Returns undefined if the expression is not a constant expression.
+ */
+export function evaluateConstantAssign(scope: SymbolScope, assign: NodeAssign): ConstantValue | undefined {
+    return evaluateAssign(createEvaluationState(scope.getGlobalScope(), undefined), scope, assign);
+}
+
+/**
+ * Evaluates the value of the number literal. e.g., '0xFF', '1.5f'
+ * Integers that exceed 64 bits are evaluated as they are, so the caller can report the overflow.
+ */
+export function evaluateNumberLiteral(token: TokenNumber): bigint | number | undefined {
+    if (token.numberLiteral !== NumberLiteral.Integer) {
+        // parseFloat ignores the suffix of the float literal. e.g., '1.5f'
+        const value = parseFloat(token.text);
+        return Number.isNaN(value) ? undefined : value;
+    }
+
+    // BigInt accepts the prefixes '0x', '0b' and '0o', but not the decimal prefix '0d'.
+    const text = /^0[dD]/.test(token.text) ? token.text.substring(2) : token.text;
+    try {
+        return BigInt(text);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Checks if the constant value can be stored in the number type without changing it.
+ * e.g., '300' does not fit in 'int8', and '1.5' loses the fractional part in 'int'
+ * Returns true if the type is not a built-in number type.
+ */
+export function canRepresentConstant(value: ConstantValue, type: SymbolType): boolean {
+    if (typeof value === 'boolean' || type.isEnumType()) return true;
+
+    const typeName = type.identifierText;
+    if (typeName === 'float') return typeof value === 'bigint' || Math.abs(value) <= maxFloatValue;
+
+    const bits = integerBitsMap.get(typeName);
+    if (bits === undefined) return true;
+
+    if (typeof value === 'number' && Number.isInteger(value) === false) return false;
+
+    const integer = typeof value === 'bigint' ? value : BigInt(value);
+
+    const converted = typeName.startsWith('u') ? BigInt.asUintN(bits, integer) : BigInt.asIntN(bits, integer);
+    return converted === integer;
+}
+
+/**
+ * Checks if the integer constant fits in the integer type only by changing its sign.
+ * e.g., '-1' in 'uint' or '0xFFFFFFFF' in 'int'
+ */
+export function changesSignOfConstant(value: ConstantValue, type: SymbolType): boolean {
+    if (typeof value !== 'bigint') return false;
+
+    // The integer constants have at least 32 bits, so they overflow rather than change the sign in the smaller types.
+    const typeName = type.identifierText;
+    const bits = integerBitsMap.get(typeName);
+    if (bits === undefined || bits < 32) return false;
+
+    // Reinterpret the bits with the opposite signedness.
+    const converted = typeName.startsWith('u') ? BigInt.asIntN(bits, value) : BigInt.asUintN(bits, value);
+    return converted === value && canRepresentConstant(value, type) === false;
+}
+
+/**
+ * Returns the string representation of the constant value.
+ * Non-negative integers are followed by their hexadecimal notation. e.g., '4 (0x4)'
+ */
+export function stringifyConstantValue(value: ConstantValue): string {
+    if (typeof value === 'bigint' && value >= 0n) return `${value} (0x${value.toString(16).toUpperCase()})`;
+    return value.toString();
+}
+
+function createEvaluationState(globalScope: SymbolGlobalScope, expectedEnum: SymbolType | undefined): EvaluationState {
+    return {globalScope, expectedEnum, visitingSet: new Set(), enumMemberCache: new Map()};
+}
+
+function evaluateExpr(state: EvaluationState, scope: SymbolScope, expr: NodeExpr): ConstantValue | undefined {
+    // Evaluate by the precedence of the operators in the same way as the analyzer.
+    const valueStack: ConstantValue[] = [];
+    const operatorStack: TokenObject[] = [];
+
+    const reduce = (): boolean => {
+        const rhs = valueStack.pop()!;
+        const lhs = valueStack.pop()!;
+        const result = evaluateBinaryOp(operatorStack.pop()!, lhs, rhs);
+        if (result === undefined) return false;
+
+        valueStack.push(result);
+        return true;
+    };
+
+    for (let cursor: NodeExpr | undefined = expr; ;) {
+        const value = evaluateExprTerm(state, scope, cursor.head);
+        if (value === undefined) return undefined;
+
+        valueStack.push(value);
+        if (cursor.tail === undefined) break;
+
+        const operator = cursor.tail.operator;
+        while (operatorStack.length > 0 &&
+        getOperatorPrecedence(operatorStack[operatorStack.length - 1]) >= getOperatorPrecedence(operator)) {
+            if (reduce() === false) return undefined;
+        }
+
+        operatorStack.push(operator);
+        cursor = cursor.tail.expression;
+    }
+
+    while (operatorStack.length > 0) {
+        if (reduce() === false) return undefined;
+    }
+
+    return valueStack[0];
+}
+
+function evaluateBinaryOp(operator: TokenObject, lhs: ConstantValue, rhs: ConstantValue): ConstantValue | undefined {
+    if (typeof lhs === 'boolean' || typeof rhs === 'boolean') {
+        return typeof lhs === 'boolean' && typeof rhs === 'boolean' ? evaluateLogicalOp(operator, lhs, rhs) : undefined;
+    }
+
+    if (typeof lhs === 'bigint' && typeof rhs === 'bigint') {
+        return evaluateIntegerOp(operator, lhs, rhs);
+    }
+
+    // Integers are promoted to floating-point numbers when they are mixed.
+    return evaluateFloatOp(operator, Number(lhs), Number(rhs));
+}
+
+function evaluateIntegerOp(operator: TokenObject, lhs: bigint, rhs: bigint): ConstantValue | undefined {
+    // The operands are evaluated as 32-bit integers unless they exceed the range of 'int', as AngelScript does.
+    const width = fitsInInt32(lhs) && fitsInInt32(rhs) ? 32 : 64;
+    const wrap = (value: bigint) => wrapInteger(value, width, lhs > maxInt64Value || rhs > maxInt64Value);
+
+    // The shift count is masked by the width of the operand. e.g., '1 << 33' is '1 << 1'
+    const shiftCount = rhs & BigInt(width - 1);
+
+    switch (operator.text) {
+    case '+':
+        return wrap(lhs + rhs);
+    case '-':
+        return wrap(lhs - rhs);
+    case '*':
+        return wrap(lhs * rhs);
+    case '/':
+        return rhs === 0n ? undefined : wrap(lhs / rhs);
+    case '%':
+        return rhs === 0n ? undefined : lhs % rhs;
+    case '**':
+        // Avoid computing a huge number whose exponent is too large.
+        if (rhs < 0n || (rhs > maxExponent && (lhs < -1n || lhs > 1n))) return undefined;
+        return wrap(lhs ** rhs);
+    case '<<':
+        return wrap(lhs << shiftCount);
+    case '>>':
+        return lhs >> shiftCount;
+    case '>>>':
+        // The logical shift is applied to the unsigned representation.
+        return BigInt.asUintN(width, lhs) >> shiftCount;
+    case '&':
+        return lhs & rhs;
+    case '|':
+        return lhs | rhs;
+    case '^':
+        return lhs ^ rhs;
+    default:
+        return evaluateComparisonOp(operator, lhs, rhs);
+    }
+}
+
+function fitsInInt32(value: bigint): boolean {
+    return BigInt.asIntN(32, value) === value;
+}
+
+// e.g., '2147483647 + 1' is wrapped to '-2147483648' in 32 bits
+function wrapInteger(value: bigint, width: number, isUnsigned: boolean): bigint {
+    return isUnsigned ? BigInt.asUintN(width, value) : BigInt.asIntN(width, value);
+}
+
+function evaluateFloatOp(operator: TokenObject, lhs: number, rhs: number): ConstantValue | undefined {
+    switch (operator.text) {
+    case '+':
+        return lhs + rhs;
+    case '-':
+        return lhs - rhs;
+    case '*':
+        return lhs * rhs;
+    case '/':
+        return rhs === 0 ? undefined : lhs / rhs;
+    case '%':
+        return rhs === 0 ? undefined : lhs % rhs;
+    case '**':
+        return lhs ** rhs;
+    default:
+        return evaluateComparisonOp(operator, lhs, rhs);
+    }
+}
+
+function evaluateComparisonOp<T extends bigint | number>(operator: TokenObject, lhs: T, rhs: T): boolean | undefined {
+    switch (operator.text) {
+    case '==':
+        return lhs === rhs;
+    case '!=':
+        return lhs !== rhs;
+    case '<':
+        return lhs < rhs;
+    case '<=':
+        return lhs <= rhs;
+    case '>':
+        return lhs > rhs;
+    case '>=':
+        return lhs >= rhs;
+    default:
+        return undefined;
+    }
+}
+
+function evaluateLogicalOp(operator: TokenObject, lhs: boolean, rhs: boolean): boolean | undefined {
+    switch (operator.text) {
+    case '&&':
+    case 'and':
+        return lhs && rhs;
+    case '||':
+    case 'or':
+        return lhs || rhs;
+    case '^^':
+    case 'xor':
+    case '!=':
+        return lhs !== rhs;
+    case '==':
+        return lhs === rhs;
+    default:
+        return undefined;
+    }
+}
+
+function evaluateExprTerm(state: EvaluationState, scope: SymbolScope, exprTerm: NodeExprTerm): ConstantValue | undefined {
+    if (exprTerm.exprTerm === 1 || exprTerm.postOps.length > 0) return undefined;
+
+    let value = evaluateExprValue(state, scope, exprTerm.value);
+    for (let i = exprTerm.preOps.length - 1; i >= 0 && value !== undefined; i--) {
+        value = evaluateUnaryOp(exprTerm.preOps[i], value);
+    }
+
+    return value;
+}
+
+function evaluateUnaryOp(operator: TokenObject, value: ConstantValue): ConstantValue | undefined {
+    if (typeof value === 'boolean') {
+        return operator.text === '!' || operator.text === 'not' ? !value : undefined;
+    }
+
+    switch (operator.text) {
+    case '-':
+        return -value;
+    case '+':
+        return value;
+    case '~':
+        return typeof value === 'bigint' ? ~value : undefined;
+    default:
+        return undefined;
+    }
+}
+
+function evaluateExprValue(state: EvaluationState, scope: SymbolScope, exprValue: NodeExprValue): ConstantValue | undefined {
+    switch (exprValue.nodeName) {
+    case NodeName.Literal:
+        return evaluateLiteral(exprValue);
+    case NodeName.Assign:
+        return evaluateAssign(state, scope, exprValue);
+    case NodeName.VarAccess:
+        return evaluateVarAccess(state, scope, exprValue);
+    case NodeName.ConstructCall:
+        return evaluateConstructCall(state, scope, exprValue);
+    default:
+        return undefined;
+    }
+}
+
+function evaluateAssign(state: EvaluationState, scope: SymbolScope, assign: NodeAssign): ConstantValue | undefined {
+    if (assign.tail !== undefined) return undefined;
+
+    const condition = evaluateExpr(state, scope, assign.condition.expr);
+    const ternary = assign.condition.ternary;
+    if (ternary === undefined || condition === undefined) return condition;
+
+    if (typeof condition !== 'boolean') return undefined;
+    return evaluateAssign(state, scope, condition ? ternary.trueAssign : ternary.falseAssign);
+}
+
+function evaluateLiteral(literal: NodeLiteral): ConstantValue | undefined {
+    const token = literal.value;
+    if (token.text === 'true' || token.text === 'false') return token.text === 'true';
+
+    if (token.kind === TokenKind.String && token.text[0] === '\'' && getGlobalSettings().characterLiterals) {
+        return evaluateCharacterLiteral(token.text);
+    }
+
+    if (token.isNumberToken() === false) return undefined;
+
+    // The integer literal that exceeds 64 bits is not a valid constant.
+    const value = evaluateNumberLiteral(token);
+    if (typeof value === 'bigint' && BigInt.asUintN(64, value) !== value) return undefined;
+
+    return value;
+}
+
+const characterEscapes = new Map<string, string>([
+    ['n', '\n'], ['r', '\r'], ['t', '\t'], ['0', '\0'], ['\\', '\\'], ['\'', '\''], ['"', '"']
+]);
+
+// e.g., 'a' is 97, '\n' is 10 and '\x41' is 65
+function evaluateCharacterLiteral(text: string): bigint | undefined {
+    const content = text.slice(1, -1);
+
+    let code: number | undefined;
+    if (content[0] !== '\\') {
+        code = content.codePointAt(0);
+    } else {
+        const hexMatch = /^\\[xuU]([0-9a-fA-F]+)$/.exec(content);
+        code = hexMatch !== null ? parseInt(hexMatch[1], 16) : characterEscapes.get(content.slice(1))?.charCodeAt(0);
+    }
+
+    return code === undefined ? undefined : BigInt(code);
+}
+
+// e.g., 'int(1.5)' or 'Color(1)'
+function evaluateConstructCall(
+    state: EvaluationState, scope: SymbolScope, constructCall: NodeConstructCall
+): ConstantValue | undefined {
+    const argList = constructCall.argList.argList;
+    if (argList.length !== 1 || argList[0].identifier !== undefined) return undefined;
+
+    const typeIdentifier = getIdentifierInNodeType(constructCall.type);
+    const castType = tryGetBuiltinType(typeIdentifier) ?? findSymbolWithParent(scope, typeIdentifier.text)?.symbol;
+    if (castType === undefined || castType.isType() === false) return undefined;
+
+    const value = evaluateAssign(state, scope, argList[0].assign);
+    return value === undefined ? undefined : convertConstantValue(value, castType);
+}
+
+function evaluateVarAccess(state: EvaluationState, scope: SymbolScope, varAccess: NodeVarAccess): ConstantValue | undefined {
+    const identifier = varAccess.identifier;
+    if (identifier === undefined) return undefined;
+
+    let variable;
+    if (varAccess.scope !== undefined) {
+        variable = resolveNodeScope(scope, varAccess.scope)?.lookupSymbol(identifier.text);
+    } else {
+        variable = findSymbolWithParent(scope, identifier.text)?.symbol ?? findEnumMember(state, identifier.text);
+    }
+
+    if (variable === undefined || variable.isVariable() === false) return undefined;
+
+    return evaluateVariable(state, variable);
+}
+
+function evaluateVariable(state: EvaluationState, variable: SymbolVariable): ConstantValue | undefined {
+    const variableType = variable.type?.typeOrFunc;
+    if (variableType === undefined || variableType.isType() === false) return undefined;
+
+    const initializer = variable.constantInitializer;
+    if (initializer !== undefined) {
+        const variableScope = state.globalScope.resolveScope(variable.scopePath);
+        if (variableScope === undefined) return undefined;
+
+        const value = evaluateInitializer(state, initializer, () => evaluateAssign(state, variableScope, initializer));
+        return value === undefined ? undefined : convertConstantValue(value, variableType);
+    }
+
+    if (variableType.linkedNode?.nodeName === NodeName.Enum) {
+        return evaluateEnumMember(state, variableType, variable.identifierToken);
+    }
+
+    return undefined;
+}
+
+function evaluateEnumMember(state: EvaluationState, enumType: SymbolType, memberIdentifier: TokenObject): bigint | undefined {
+    if (enumType.membersScopePath === undefined) return undefined;
+
+    const enumScope = state.globalScope.resolveScope(enumType.membersScopePath);
+    if (enumScope === undefined) return undefined;
+
+    const enumNode = enumType.linkedNode as NodeEnum;
+    let value: bigint | undefined = -1n;
+    for (const member of enumNode.memberList) {
+        const cachedValue = state.enumMemberCache.get(member);
+        if (cachedValue !== undefined) {
+            value = cachedValue;
+        } else if (member.expr !== undefined) {
+            const memberExpr = member.expr;
+            const memberValue = evaluateInitializer(state, member, () => evaluateExpr(state, enumScope, memberExpr));
+            value = typeof memberValue === 'bigint' ? memberValue : undefined;
+        } else if (value !== undefined) {
+            value = value + 1n;
+        }
+
+        // Only the evaluated values are cached, since a member may fail to evaluate while its reference is circular.
+        if (value !== undefined) state.enumMemberCache.set(member, value);
+
+        if (member.identifier === memberIdentifier) return value;
+    }
+
+    return undefined;
+}
+
+function evaluateInitializer(
+    state: EvaluationState, initializer: NodeAssign | ParsedEnumMember, evaluate: () => ConstantValue | undefined
+): ConstantValue | undefined {
+    // Circular references such as 'enum E { A = B, B = A }' are not constant.
+    if (state.visitingSet.has(initializer)) return undefined;
+
+    state.visitingSet.add(initializer);
+    const value = evaluate();
+    state.visitingSet.delete(initializer);
+
+    return value;
+}
+
+// The largest finite value of 'float'
+const maxFloatValue = 3.4028234663852886e38;
+
+const maxInt64Value = (1n << 63n) - 1n;
+
+// The exponent above which the power of an integer other than 0, 1 and -1 is not evaluated.
+const maxExponent = 64n;
+
+const integerBitsMap = new Map<string, number>([
+    ['int8', 8], ['int16', 16], ['int', 32], ['int32', 32], ['int64', 64],
+    ['uint8', 8], ['uint16', 16], ['uint', 32], ['uint32', 32], ['uint64', 64],
+]);
+
+/**
+ * Converts the value to the given type in the same way as the value cast. e.g., 'int8(300)' is 44.
+ */
+function convertConstantValue(value: ConstantValue, type: SymbolType): ConstantValue | undefined {
+    if (type.isEnumType()) return typeof value === 'bigint' ? value : undefined;
+
+    const typeName = type.identifierText;
+    if (typeName === 'bool') return typeof value === 'boolean' ? value : undefined;
+
+    if (typeof value === 'boolean') return undefined;
+
+    if (typeName === 'float' || typeName === 'double') return Number(value);
+
+    const bits = integerBitsMap.get(typeName);
+    if (bits === undefined) return undefined;
+
+    // Floating-point numbers are truncated toward zero.
+    const integer = typeof value === 'bigint' ? value : Number.isFinite(value) ? BigInt(Math.trunc(value)) : undefined;
+    if (integer === undefined) return undefined;
+
+    return typeName.startsWith('u') ? BigInt.asUintN(bits, integer) : BigInt.asIntN(bits, integer);
+}
+
+/**
+ * Finds the enum member accessed without its enum name. e.g., 'RED' in 'Color color = RED;'
+ */
+function findEnumMember(state: EvaluationState, identifier: string): SymbolVariable | undefined {
+    const candidates: SymbolVariable[] = [];
+    for (const enumScope of state.globalScope.getContext().enumScopeList) {
+        const found = enumScope.lookupSymbol(identifier);
+        if (found !== undefined && found.isVariable()) candidates.push(found);
+    }
+
+    if (state.expectedEnum !== undefined) {
+        return candidates.find(candidate => candidate.type?.typeOrFunc === state.expectedEnum);
+    }
+
+    return candidates.length === 1 ? candidates[0] : undefined;
+}
+
+function resolveNodeScope(scope: SymbolScope, nodeScope: NodeScope): SymbolScope | undefined {
+    let scopeIterator: SymbolScope | undefined = nodeScope.isGlobal ? scope.getGlobalScope() : scope;
+    for (; scopeIterator !== undefined; scopeIterator = scopeIterator.parentScope) {
+        let accessScope: SymbolScope | undefined = scopeIterator;
+        for (const scopeToken of nodeScope.scopeList) {
+            accessScope = accessScope.lookupScope(scopeToken.text);
+            if (accessScope === undefined) break;
+        }
+
+        if (accessScope !== undefined) return accessScope;
+    }
+
+    return undefined;
+}
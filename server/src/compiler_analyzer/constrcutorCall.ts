@@ -5,9 +5,10 @@ import {analyzerDiagnostic} from "./analyzerDiagnostic";
 import {assertTypeCast} from "./typeCast";
 import {TokenRange} from "../compiler_tokenizer/tokenRange";
 import {SymbolObjectHolder} from "./symbolObject";
-import {stringifyResolvedType} from "./symbolUtils";
+import {canAccessInstanceMember, stringifyInaccessibleMember, stringifyResolvedType} from "./symbolUtils";
 import {isFuncHeadConstructor, NodeFuncCall, NodeName} from "../compiler_parser/nodes";
 import * as assert from "node:assert";
+import {ConversionType} from "./typeConversion";
 
 export function findConstructorOfType(resolvedType: ResolvedType | undefined): SymbolObjectHolder | undefined {
     if (resolvedType?.scopePath === undefined) {
@@ -24,6 +25,57 @@ export function findConstructorOfType(resolvedType: ResolvedType | undefined): S
     return classScope !== undefined ? classScope.lookupSymbol(typeName) : undefined;
 }
 
+/**
+ * Reports an error if the type cannot be instantiated, i.e., it is an abstract class, an interface or a mixin class.
+ */
+export function assertInstantiableType(callerRange: TokenRange, constructorType: ResolvedType): boolean {
+    if (constructorType.isHandler === true) return true;
+
+    const typeOrFunc = constructorType.typeOrFunc;
+    const linkedNode = typeOrFunc.isType() ? typeOrFunc.linkedNode : undefined;
+    if (typeOrFunc.isType() && typeOrFunc.isMixin === true) {
+        analyzerDiagnostic.error(
+            callerRange.getBoundingLocation(),
+            `Cannot instantiate the mixin class '${typeOrFunc.identifierText}'.`
+        );
+        return false;
+    } else if (linkedNode?.nodeName === NodeName.Class && linkedNode.entity?.isAbstract === true) {
+        analyzerDiagnostic.error(
+            callerRange.getBoundingLocation(),
+            `Cannot instantiate the abstract class '${linkedNode.identifier.text}'.`
+        );
+        return false;
+    } else if (linkedNode?.nodeName === NodeName.Interface) {
+        analyzerDiagnostic.error(
+            callerRange.getBoundingLocation(),
+            `Cannot instantiate the interface '${linkedNode.identifier.text}'.`
+        );
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Reports an error if the default constructor is private or protected, e.g., 'Object obj;' where 'private Object() { }'
+ */
+export function assertAccessibleDefaultConstructor(
+    scope: SymbolScope, callerIdentifier: TokenObject, constructorType: ResolvedType
+) {
+    if (constructorType.isHandler === true) return;
+
+    const constructorHolder = findConstructorOfType(constructorType);
+    if (constructorHolder?.isFunctionHolder() !== true) return;
+
+    const defaultConstructor = constructorHolder.toList().find(constructor => constructor.parameterTypes.length === 0);
+    if (defaultConstructor === undefined || canAccessInstanceMember(scope, defaultConstructor)) return;
+
+    analyzerDiagnostic.error(callerIdentifier.location, stringifyInaccessibleMember(defaultConstructor), [{
+        location: defaultConstructor.identifierToken.location,
+        message: `'${defaultConstructor.identifierText}' is declared here.`
+    }]);
+}
+
 /**
  * Check if the default constructor call is valid. (e.g., primitive types, enum, Object())
  */
@@ -53,7 +105,8 @@ export function checkDefaultConstructorCall(
 
             analyzerDiagnostic.error(callerRange.getBoundingLocation(), message);
         } else {
-            assertTypeCast(callerArgTypes[0], calleeConstructorType, callerRange);
+            // e.g., 'int(obj)' can call 'opConv' of the object.
+            assertTypeCast(callerArgTypes[0], calleeConstructorType, callerRange, ConversionType.ExplicitValueCast);
         }
 
         return calleeConstructorType;
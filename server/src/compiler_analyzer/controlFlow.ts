@@ -0,0 +1,176 @@
+import {
+    NodeAssign,
+    NodeCase,
+    NodeDoWhile,
+    NodeFor,
+    NodeIf,
+    NodeName,
+    NodeStatBlock,
+    NodeStatement,
+    NodeSwitch,
+    NodeVar,
+    NodeWhile
+} from "../compiler_parser/nodes";
+import {analyzerDiagnostic} from "./analyzerDiagnostic";
+import {getBoundingLocationBetween} from "../compiler_tokenizer/tokenRange";
+
+/**
+ * The statements that 'break' and 'continue' jump out of.
+ */
+interface JumpTarget {
+    hasBreak: boolean;
+    hasContinue: boolean;
+}
+
+interface ControlFlowContext {
+    breakTarget: JumpTarget | undefined;
+    continueTarget: JumpTarget | undefined;
+}
+
+/**
+ * Checks the control flow of the function body.
+ * Unreachable statements are reported as hints, and if the function returns a value,
+ * an error is reported when the end of the body is reachable.
+ */
+export function checkFunctionControlFlow(statBlock: NodeStatBlock, requiresReturn: boolean) {
+    const context: ControlFlowContext = {breakTarget: undefined, continueTarget: undefined};
+
+    const canComplete = checkStatementList(context, statBlock.statementList);
+    if (canComplete && requiresReturn) {
+        analyzerDiagnostic.error(statBlock.nodeRange.end.location, `Not all code paths return a value.`);
+    }
+}
+
+// -----------------------------------------------
+
+/**
+ * Returns true if the end of the statement list is reachable.
+ */
+function checkStatementList(context: ControlFlowContext, statementList: (NodeVar | NodeStatement)[]): boolean {
+    for (let i = 0; i < statementList.length; i++) {
+        if (checkStatement(context, statementList[i])) continue;
+
+        // The statements after 'return', 'break' or 'continue' are never executed.
+        const unreachableStart = statementList.at(i + 1);
+        if (unreachableStart !== undefined) {
+            analyzerDiagnostic.unnecessary(
+                getBoundingLocationBetween(unreachableStart.nodeRange.start, statementList.at(-1)!.nodeRange.end),
+                `Unreachable code detected.`
+            );
+        }
+
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Returns true if the statement can complete normally, i.e., the next statement is reachable.
+ */
+function checkStatement(context: ControlFlowContext, statement: NodeVar | NodeStatement): boolean {
+    switch (statement.nodeName) {
+    case NodeName.Return:
+        return false;
+    case NodeName.Break:
+        if (context.breakTarget !== undefined) context.breakTarget.hasBreak = true;
+        return false;
+    case NodeName.Continue:
+        if (context.continueTarget !== undefined) context.continueTarget.hasContinue = true;
+        return false;
+    case NodeName.StatBlock:
+        return checkStatementList(context, statement.statementList);
+    case NodeName.If:
+        return checkIf(context, statement);
+    case NodeName.For:
+    case NodeName.While:
+        return checkLoop(statement);
+    case NodeName.ForEach:
+        if (statement.statement !== undefined) checkLoopBody(statement.statement);
+        return true;
+    case NodeName.DoWhile:
+        return checkDoWhile(statement);
+    case NodeName.Switch:
+        return checkSwitch(context, statement);
+    case NodeName.Try: {
+        const tryCompletes = checkStatementList(context, statement.tryBlock.statementList);
+        if (statement.catchBlock === undefined) return tryCompletes;
+
+        const catchCompletes = checkStatementList(context, statement.catchBlock.statementList);
+        return tryCompletes || catchCompletes;
+    }
+    default:
+        return true;
+    }
+}
+
+// BNF: IF            ::= 'if' '(' ASSIGN ')' STATEMENT ['else' STATEMENT]
+function checkIf(context: ControlFlowContext, nodeIf: NodeIf): boolean {
+    const thenCompletes = nodeIf.thenStat === undefined || checkStatement(context, nodeIf.thenStat);
+    const elseCompletes = nodeIf.elseStat === undefined || checkStatement(context, nodeIf.elseStat);
+    return thenCompletes || elseCompletes;
+}
+
+// BNF: FOR           ::= 'for' '(' (VAR | EXPRSTAT) EXPRSTAT [ASSIGN {',' ASSIGN}] ')' STATEMENT
+// BNF: WHILE         ::= 'while' '(' ASSIGN ')' STATEMENT
+function checkLoop(loop: NodeFor | NodeWhile): boolean {
+    const target = loop.statement !== undefined ? checkLoopBody(loop.statement) : undefined;
+
+    // e.g., 'for (;;)' and 'while (true)'
+    const isInfinite = loop.nodeName === NodeName.For
+        ? loop.condition?.assign === undefined || isTrueLiteral(loop.condition.assign)
+        : isTrueLiteral(loop.assign);
+
+    // An infinite loop can be exited only by 'break'.
+    return isInfinite === false || target?.hasBreak === true;
+}
+
+// BNF: DOWHILE       ::= 'do' STATEMENT 'while' '(' ASSIGN ')' ';'
+function checkDoWhile(doWhile: NodeDoWhile): boolean {
+    const target = {hasBreak: false, hasContinue: false};
+    const bodyCompletes = checkStatement({breakTarget: target, continueTarget: target}, doWhile.statement);
+    if (target.hasBreak) return true;
+
+    // The condition is evaluated only if the end of the body or 'continue' is reached.
+    const reachesCondition = bodyCompletes || target.hasContinue;
+    return reachesCondition && isTrueLiteral(doWhile.assign) === false;
+}
+
+function checkLoopBody(statement: NodeStatement): JumpTarget {
+    const target = {hasBreak: false, hasContinue: false};
+    checkStatement({breakTarget: target, continueTarget: target}, statement);
+    return target;
+}
+
+// BNF: SWITCH        ::= 'switch' '(' ASSIGN ')' '{' {CASE} '}'
+function checkSwitch(context: ControlFlowContext, nodeSwitch: NodeSwitch): boolean {
+    // 'continue' in the switch jumps to the enclosing loop.
+    const target = {hasBreak: false, hasContinue: false};
+    const switchContext = {breakTarget: target, continueTarget: context.continueTarget};
+
+    // Each case label is reachable, and the last case falls off the end of the switch.
+    let lastCaseCompletes = true;
+    for (const nodeCase of nodeSwitch.caseList) {
+        lastCaseCompletes = checkCase(switchContext, nodeCase);
+    }
+
+    const hasDefault = nodeSwitch.caseList.some(nodeCase => nodeCase.expr === undefined);
+    return hasDefault === false || target.hasBreak || lastCaseCompletes;
+}
+
+// BNF: CASE          ::= (('case' EXPR) | 'default') ':' {STATEMENT}
+function checkCase(context: ControlFlowContext, nodeCase: NodeCase): boolean {
+    return checkStatementList(context, nodeCase.statementList);
+}
+
+function isTrueLiteral(assign: NodeAssign | undefined): boolean {
+    if (assign === undefined || assign.tail !== undefined) return false;
+
+    const condition = assign.condition;
+    if (condition.ternary !== undefined || condition.expr.tail !== undefined) return false;
+
+    const head = condition.expr.head;
+    if (head.exprTerm !== 2 || head.preOps.length > 0 || head.postOps.length > 0) return false;
+
+    return head.value.nodeName === NodeName.Literal && head.value.value.text === 'true';
+}
@@ -0,0 +1,81 @@
+import {SymbolGlobalScope} from "./symbolScope";
+import {SymbolObject} from "./symbolObject";
+import {ParsedMetadata} from "../compiler_parser/nodes";
+import {TokenObject} from "../compiler_tokenizer/tokenObject";
+import {getDocumentCommentOfSymbol} from "../services/utils";
+import {analyzerDiagnostic} from "./analyzerDiagnostic";
+
+/**
+ * The reason why a symbol should no longer be used.
+ */
+export interface SymbolDeprecation {
+    readonly message: string; // Empty if no message is given.
+    readonly replacement: string | undefined; // e.g., 'newFn' in "Use newFn instead."
+}
+
+/**
+ * Returns the deprecation of the symbol marked with `[deprecated("message")]` or `@deprecated message` in the document comment.
+ */
+export function getSymbolDeprecation(symbol: SymbolObject): SymbolDeprecation | undefined {
+    const message = getDeprecationMessageInMetadata(symbol.metadata)
+        ?? getDeprecationMessageInComment(getDocumentCommentOfSymbol(symbol));
+    if (message === undefined) return undefined;
+
+    return {message: message, replacement: /\buse\s+[`'"]?([A-Za-z_]\w*)/i.exec(message)?.[1]};
+}
+
+/**
+ * Returns the message for the reference to the deprecated symbol, e.g., "'oldFn' is deprecated: Use newFn instead."
+ */
+export function stringifyDeprecation(symbol: SymbolObject, deprecation: SymbolDeprecation): string {
+    return deprecation.message.length > 0
+        ? `'${symbol.identifierText}' is deprecated: ${deprecation.message}`
+        : `'${symbol.identifierText}' is deprecated.`;
+}
+
+/**
+ * Reports the references in the file to the symbols that are marked as deprecated.
+ */
+export function checkDeprecatedReferences(globalScope: SymbolGlobalScope) {
+    const filepath = globalScope.getContext().filepath;
+    if (filepath.endsWith('as.predefined')) return;
+
+    const deprecationCache = new Map<SymbolObject, SymbolDeprecation | undefined>();
+    const reportedTokens = new Set<TokenObject>();
+    for (const reference of globalScope.info.reference) {
+        const fromToken = reference.fromToken;
+        if (fromToken.isVirtual() || fromToken.location.path !== filepath || reportedTokens.has(fromToken)) continue;
+
+        const symbol = reference.toSymbol;
+        if (deprecationCache.has(symbol) === false) deprecationCache.set(symbol, getSymbolDeprecation(symbol));
+
+        const deprecation = deprecationCache.get(symbol);
+        if (deprecation === undefined) continue;
+
+        reportedTokens.add(fromToken);
+        analyzerDiagnostic.deprecated(fromToken.location, stringifyDeprecation(symbol, deprecation));
+
+        // Suggest the replacement only if it can be found from the deprecated symbol.
+        const replacement = deprecation.replacement;
+        const replacementFound = replacement !== undefined &&
+            globalScope.resolveScope(symbol.scopePath)?.lookupSymbolWithParent(replacement) !== undefined;
+        globalScope.info.deprecatedReference.push({
+            fromToken: fromToken,
+            replacement: replacementFound ? replacement : undefined
+        });
+    }
+}
+
+// e.g., 'message' in '[deprecated("message")]'
+function getDeprecationMessageInMetadata(metadataList: ParsedMetadata[]): string | undefined {
+    const metadata = metadataList.find(metadata => metadata.name?.text === 'deprecated');
+    if (metadata === undefined) return undefined;
+
+    const valueTokens = metadata.argumentList?.[0]?.valueTokens ?? [];
+    return valueTokens.map(token => token.isStringToken() ? token.getStringContent() : token.text).join(' ');
+}
+
+// e.g., 'message' in '/// @deprecated message'
+function getDeprecationMessageInComment(documentComment: string): string | undefined {
+    return /@deprecated\b(.*)/.exec(documentComment)?.[1].trim();
+}
@@ -0,0 +1,107 @@
+import {getActiveGlobalScope, resolveActiveScope} from "./symbolScope";
+import {TokenObject} from "../compiler_tokenizer/tokenObject";
+import {ResolvedType} from "./resolvedType";
+import {analyzerDiagnostic} from "./analyzerDiagnostic";
+import {TokenRange} from "../compiler_tokenizer/tokenRange";
+import {stringifyResolvedType} from "./symbolUtils";
+import {evaluateFunctionCall} from "./functionCall";
+import {TextLocation} from "../compiler_tokenizer/textLocation";
+import {SymbolFunction} from "./symbolObject";
+
+interface ForEachCallArgs {
+    foreachToken: TokenObject;
+    containerType: ResolvedType;
+    containerRange: TokenRange;
+    variableIdentifiers: TokenObject[];
+}
+
+/**
+ * Checks whether the container implements the foreach protocol and returns the value types for each variable.
+ * e.g., `foreach (auto value, auto index : container)` calls the following methods of the container:
+ * `opForBegin()`, `opForEnd(iterator)`, `opForNext(iterator)`, `opForValue0(iterator)` and `opForValue1(iterator)`.
+ */
+export function checkForEachCall(args: ForEachCallArgs): (ResolvedType | undefined)[] {
+    const {foreachToken, containerType, containerRange, variableIdentifiers} = args;
+
+    const containerName = stringifyResolvedType(containerType);
+    const errorMissingMethod = (location: TextLocation, method: string) => {
+        analyzerDiagnostic.error(location, `'${containerName}' does not implement '${method}' for foreach.`);
+    };
+
+    // The methods are referenced from the 'foreach' keyword, as the operator overloads are referenced from the operators.
+    const pushReference = (method: SymbolFunction) => {
+        getActiveGlobalScope().info.reference.push({toSymbol: method, fromToken: foreachToken});
+    };
+
+    // The iterator is returned by 'opForBegin' and passed to the other methods.
+    const begin = evaluateForEachMethod(containerType, containerRange, 'opForBegin', []);
+    if (begin === undefined) {
+        errorMissingMethod(containerRange.getBoundingLocation(), 'opForBegin');
+        return [];
+    }
+
+    pushReference(begin.method);
+
+    const iteratorType = begin.returnType;
+    for (const method of ['opForEnd', 'opForNext']) {
+        const evaluated = evaluateForEachMethod(containerType, containerRange, method, [iteratorType]);
+        if (evaluated === undefined) {
+            errorMissingMethod(containerRange.getBoundingLocation(), method);
+        } else {
+            pushReference(evaluated.method);
+        }
+    }
+
+    // 'opForValue' is available only for the first variable, and 'opForValue{N}' is required for the N-th variable.
+    const valueTypes: (ResolvedType | undefined)[] = [];
+    for (let i = 0; i < variableIdentifiers.length; i++) {
+        const methodCandidates = i === 0 ? ['opForValue', 'opForValue0'] : [`opForValue${i}`];
+
+        const value = methodCandidates
+            .map(method => evaluateForEachMethod(containerType, containerRange, method, [iteratorType]))
+            .find(value => value !== undefined);
+
+        if (value === undefined) {
+            if (i === 0) {
+                errorMissingMethod(variableIdentifiers[i].location, 'opForValue');
+            } else {
+                analyzerDiagnostic.error(
+                    variableIdentifiers[i].location,
+                    `Too many variables for foreach. '${containerName}' does not implement 'opForValue${i}'.`
+                );
+            }
+        } else {
+            pushReference(value.method);
+        }
+
+        valueTypes.push(value?.returnType);
+    }
+
+    return valueTypes;
+}
+
+function evaluateForEachMethod(
+    containerType: ResolvedType,
+    containerRange: TokenRange,
+    method: string,
+    argTypes: (ResolvedType | undefined)[]
+): { method: SymbolFunction, returnType: ResolvedType | undefined } | undefined {
+    if (containerType.scopePath === undefined) return undefined;
+
+    const methodHolder =
+        resolveActiveScope(containerType.scopePath).lookupScope(containerType.identifierText)?.lookupSymbol(method);
+    if (methodHolder === undefined || methodHolder.isFunctionHolder() === false) return undefined;
+
+    const evaluated = evaluateFunctionCall({
+        callerIdentifier: containerRange.start,
+        callerRange: containerRange,
+        callerArgs: argTypes.map(type => ({name: undefined, type: type})),
+        calleeFuncHolder: methodHolder,
+        calleeTemplateTranslator: containerType.templateTranslator,
+        callerIsConst: containerType.isConst
+    });
+
+    if (evaluated.bestMatching === undefined) return undefined;
+
+    return {method: evaluated.bestMatching, returnType: evaluated.returnType};
+}
@@ -1,7 +1,9 @@
 import {
     SymbolFunction, SymbolFunctionHolder, SymbolVariable,
 } from "./symbolObject";
-import {stringifyResolvedType, stringifyResolvedTypes} from "./symbolUtils";
+import {
+    canAccessInstanceMember, stringifyInaccessibleMember, stringifyResolvedType, stringifyResolvedTypes
+} from "./symbolUtils";
 import {getActiveGlobalScope, resolveActiveScope, SymbolScope} from "./symbolScope";
 import {applyTemplateTranslator, ResolvedType, TemplateTranslator} from "./resolvedType";
 import {analyzerDiagnostic} from "./analyzerDiagnostic";
@@ -10,12 +12,15 @@ import {TokenRange} from "../compiler_tokenizer/tokenRange";
 import {evaluateConversionCost} from "./typeConversion";
 import {NodeName} from "../compiler_parser/nodes";
 import {checkTypeCast} from "./typeCast";
-import {causeTypeConversionSideEffect} from "./typeConversionSideEffect";
+import {causeTypeConversionSideEffect, checkConstantConversion} from "./typeConversionSideEffect";
+import {ConstantValue} from "./constantEvaluator";
+import {findSimilarName} from "../utils/utilities";
 
 interface CallerArgument {
     name: TokenObject | undefined; // Support for named arguments
     range?: TokenRange; // The range of the argument without the name. It is used for error messages.
     type: ResolvedType | undefined;
+    constantValue?: ConstantValue; // The value of the argument if it is a constant expression. e.g., '1 << 4'
 }
 
 interface FunctionCallArgs {
@@ -28,6 +33,12 @@ interface FunctionCallArgs {
     calleeFuncHolder: SymbolFunctionHolder;
     calleeTemplateTranslator: (TemplateTranslator | undefined);
     calleeDelegateVariable?: SymbolVariable; // This is required because the delegate is called by a variable.
+
+    // Whether the method is called on a read-only object. e.g., 'obj.method()' where 'obj' is 'const Object@'
+    callerIsConst?: boolean;
+
+    // The scope from which the function is called. It is used to check the access to private and protected methods.
+    callerScope?: SymbolScope;
 }
 
 interface FunctionCallResult {
@@ -78,7 +89,9 @@ enum MismatchKind {
     InvalidNamedArgumentOrder = 'InvalidNamedArgumentOrder',
     DuplicateNamedArgument = 'DuplicateNamedArgument',
     NotFoundNamedArgument = 'NotFoundNamedArgument',
-    ParameterMismatch = 'ParameterMismatch'
+    MissingNamedArgument = 'MissingNamedArgument',
+    ParameterMismatch = 'ParameterMismatch',
+    NonConstMethod = 'NonConstMethod'
 }
 
 const mismatchPriority: Map<MismatchKind, number> = new Map([
@@ -87,7 +100,9 @@ const mismatchPriority: Map<MismatchKind, number> = new Map([
     [MismatchKind.InvalidNamedArgumentOrder, 10], // We highly prioritize errors related to named arguments.
     [MismatchKind.DuplicateNamedArgument, 10],
     [MismatchKind.NotFoundNamedArgument, 10],
-    [MismatchKind.ParameterMismatch, 5]
+    [MismatchKind.MissingNamedArgument, 10],
+    [MismatchKind.ParameterMismatch, 5],
+    [MismatchKind.NonConstMethod, 6], // The arguments match, but the method cannot be called on a read-only object.
 ]);
 
 type MismatchReason = {
@@ -99,15 +114,24 @@ type MismatchReason = {
     invalidArgumentIndex: number
 } | {
     reason: MismatchKind.DuplicateNamedArgument
-    nameIndex: number
+    nameIndex: number,
+    previousIndex: number // The index of the argument that has already been passed to the same parameter
 } | {
     reason: MismatchKind.NotFoundNamedArgument
-    nameIndex: number
+    nameIndex: number,
+    callee: SymbolFunction
+} | {
+    reason: MismatchKind.MissingNamedArgument
+    paramIndex: number,
+    callee: SymbolFunction
 } | {
     reason: MismatchKind.ParameterMismatch,
     mismatchIndex: number,
     expectedType: ResolvedType | undefined,
     actualType: ResolvedType | undefined,
+} | {
+    reason: MismatchKind.NonConstMethod,
+    callee: SymbolFunction
 }
 
 function hasMismatchReason(reason: number | MismatchReason): reason is MismatchReason {
@@ -139,7 +163,9 @@ function checkFunctionCallInternal(args: FunctionCallArgs): FunctionCallResult {
             continue;
         }
 
-        if (bestMatching === undefined || evaluated < bestMatching.cost) {
+        if (bestMatching === undefined || evaluated < bestMatching.cost ||
+            (evaluated === bestMatching.cost && isPreferredConstness(args, callee, bestMatching.function))
+        ) {
             // Update the best matching function.
             bestMatching = {function: callee, cost: evaluated, sideEffects: sideEffectBuffer};
         }
@@ -159,6 +185,12 @@ function checkFunctionCallInternal(args: FunctionCallArgs): FunctionCallResult {
                 }));
 
                 pushReferenceToNamedArguments(args.callerArgs, bestMatching.function);
+
+                assertNotDeletedFunction(callerIdentifier, bestMatching.function);
+
+                if (args.callerScope !== undefined) {
+                    assertAccessibleFunction(args.callerScope, callerIdentifier, bestMatching.function);
+                }
             }
         };
     } else {
@@ -200,6 +232,33 @@ function pushReferenceToNamedArguments(callerArgs: CallerArgument[], callee: Sym
     }
 }
 
+/**
+ * Reports an error if the function is deleted, e.g., 'void fn() delete;'
+ * The deleted function participates in the overload resolution, but cannot be called.
+ */
+function assertNotDeletedFunction(callerIdentifier: TokenObject, callee: SymbolFunction) {
+    const linkedNode = callee.linkedNode;
+    if (linkedNode.nodeName !== NodeName.Func || linkedNode.funcAttr?.isDeleted !== true) return;
+
+    analyzerDiagnostic.error(
+        callerIdentifier.location,
+        `'${callee.identifierText}' is deleted and cannot be called.`,
+        [{location: callee.identifierToken.location, message: `'${callee.identifierText}' is declared here.`}]
+    );
+}
+
+/**
+ * Reports an error if the private or protected method is called from outside the class, e.g., 'obj.privateMethod()'
+ */
+function assertAccessibleFunction(callerScope: SymbolScope, callerIdentifier: TokenObject, callee: SymbolFunction) {
+    if (canAccessInstanceMember(callerScope, callee)) return;
+
+    analyzerDiagnostic.error(callerIdentifier.location, stringifyInaccessibleMember(callee), [{
+        location: callee.identifierToken.location,
+        message: `'${callee.identifierText}' is declared here.`
+    }]);
+}
+
 function evaluateDelegateCast(args: FunctionCallArgs): FunctionCallResult | undefined {
     const {callerIdentifier, callerArgs, calleeFuncHolder, calleeTemplateTranslator} = args;
 
@@ -238,19 +297,12 @@ function evaluateFunctionMatch(
 
     let totalCost = 0;
 
-    // Caller arguments must be at least as many as the callee parameters.
-    if (callee.parameterTypes.length < callerArgs.length) {
-        if (!callee.linkedNode.paramList.at(-1)?.isVariadic) {
-            // The number of arguments is too many.
-            return {reason: MismatchKind.TooManyArguments};
-        }
-    }
-
     // The order of the caller arguments is expected to be as follows:
     // ('positional', 'positional', ... 'positional', 'named', 'named', ... 'named')
 
     // -----------------------------------------------
     // Evaluate the named arguments in the caller
+    // This precedes the argument count check so that misspelled names are reported as such.
     const namedArgumentCost = evaluatePassingNamedArgument(args, callee, sideEffects);
     if (hasMismatchReason(namedArgumentCost)) {
         return namedArgumentCost;
@@ -258,6 +310,14 @@ function evaluateFunctionMatch(
 
     totalCost += namedArgumentCost;
 
+    // Caller arguments must be at least as many as the callee parameters.
+    if (callee.parameterTypes.length < callerArgs.length) {
+        if (!callee.linkedNode.paramList.at(-1)?.isVariadic) {
+            // The number of arguments is too many.
+            return {reason: MismatchKind.TooManyArguments};
+        }
+    }
+
     // -----------------------------------------------
     // Evaluate the positional arguments in the caller
     const positionalArgumentCost = evaluatePassingPositionalArgument(args, callee, sideEffects);
@@ -267,20 +327,42 @@ function evaluateFunctionMatch(
 
     totalCost += positionalArgumentCost;
 
+    // -----------------------------------------------
+    // Check if the method can be called on a read-only object.
+    if (args.callerIsConst === true && callee.isInstanceMember && callee.isConstMethod === false) {
+        return {reason: MismatchKind.NonConstMethod, callee: callee};
+    }
+
     return totalCost;
 }
 
+/**
+ * Whether the callee is preferred over the other overload with the same cost.
+ * A non-const object prefers a non-const method, e.g., 'T& opIndex(uint)' over 'const T& opIndex(uint) const'.
+ */
+function isPreferredConstness(args: FunctionCallArgs, callee: SymbolFunction, other: SymbolFunction): boolean {
+    if (args.callerIsConst === true) return false;
+    return callee.isConstMethod === false && other.isConstMethod;
+}
+
 function evaluatePassingNamedArgument(
     args: FunctionCallArgs, callee: SymbolFunction, sideEffectBuffer: TypeConversionSideEffect[]
 ): number | MismatchReason {
     const {callerArgs} = args;
+    const paramList = callee.linkedNode.paramList;
 
     let totalCost = 0;
-    let foundNamedArgument = false;
+
+    // The number of the positional arguments before the first named argument
+    let positionalCount: number | undefined = undefined;
+
+    // The map from the parameter index to the index of the named argument passed to it
+    const namedParamMap = new Map<number, number>();
+
     for (let argId = 0; argId < callerArgs.length; argId++) {
         const callerArgName = callerArgs[argId].name?.text;
         if (callerArgName === undefined) {
-            if (foundNamedArgument) {
+            if (positionalCount !== undefined) {
                 // Positional arguments cannot be passed after named arguments
                 return {reason: MismatchKind.InvalidNamedArgumentOrder, invalidArgumentIndex: argId};
             } else {
@@ -289,35 +371,39 @@ function evaluatePassingNamedArgument(
         }
 
         // At this point, the named argument is found.
-        foundNamedArgument = true;
+        positionalCount = positionalCount ?? argId;
 
-        // Check if the named argument is duplicated.
-        for (let i = 0; i < argId; i++) {
-            if (callerArgs[i].name?.text === callerArgName) {
-                return {reason: MismatchKind.DuplicateNamedArgument, nameIndex: argId};
-            }
+        // Find the matching parameter name in the callee function.
+        const paramId = paramList.findIndex(
+            (param, i) => i < callee.parameterTypes.length && param.identifier?.text === callerArgName
+        );
+        if (paramId === -1) {
+            return {reason: MismatchKind.NotFoundNamedArgument, nameIndex: argId, callee: callee};
         }
 
-        // Find the matching parameter name in the callee function.
-        for (let paramId = 0; paramId < callee.parameterTypes.length; paramId++) {
-            const calleeArgName = callee.linkedNode.paramList[paramId].identifier?.text;
-            if (callerArgName === calleeArgName) {
-                // Found a matching parameter name between the caller and callee
-
-                // Check the type of the passing argument
-                const cost =
-                    evaluatePassingArgument(args, argId, callee.parameterTypes[paramId], sideEffectBuffer);
-                if (hasMismatchReason(cost)) {
-                    return cost;
-                }
+        // Check if the parameter has already been passed positionally or by name.
+        const previousArgId = paramId < positionalCount ? paramId : namedParamMap.get(paramId);
+        if (previousArgId !== undefined) {
+            return {reason: MismatchKind.DuplicateNamedArgument, nameIndex: argId, previousIndex: previousArgId};
+        }
 
-                totalCost += cost;
-                break;
-            }
+        namedParamMap.set(paramId, argId);
 
-            if (paramId === callee.parameterTypes.length - 1) {
-                return {reason: MismatchKind.NotFoundNamedArgument, nameIndex: argId};
-            }
+        // Check the type of the passing argument
+        const cost =
+            evaluatePassingArgument(args, argId, callee.parameterTypes[paramId], sideEffectBuffer);
+        if (hasMismatchReason(cost)) {
+            return cost;
+        }
+
+        totalCost += cost;
+    }
+
+    if (positionalCount !== undefined) {
+        // The parameters passed neither positionally nor by name must have default values.
+        for (let paramId = positionalCount; paramId < callee.parameterTypes.length; paramId++) {
+            if (namedParamMap.has(paramId) || paramList[paramId].defaultExpr !== undefined) continue;
+            return {reason: MismatchKind.MissingNamedArgument, paramIndex: paramId, callee: callee};
         }
     }
 
@@ -397,7 +483,9 @@ function evaluatePassingArgument(
     }
 
     sideEffectBuffer.push(() => {
-        causeTypeConversionSideEffect(actualType, expectedType, callerArgs[callerArgId].range);
+        const callerArg = callerArgs[callerArgId];
+        causeTypeConversionSideEffect(actualType, expectedType, callerArg.range);
+        if (callerArg.range !== undefined) checkConstantConversion(callerArg.constantValue, expectedType, callerArg.range);
     });
 
     return cost;
@@ -416,17 +504,22 @@ function handleMismatchError(args: FunctionCallArgs, mismatchReason: MismatchRea
         );
         return;
     } else if (mismatchReason.reason === MismatchKind.DuplicateNamedArgument) {
-        const argLocation = callerArgs[mismatchReason.nameIndex].name?.location;
+        handleDuplicateNamedArgument(args, mismatchReason.nameIndex, mismatchReason.previousIndex);
+        return;
+    } else if (mismatchReason.reason === MismatchKind.NonConstMethod) {
         analyzerDiagnostic.error(
-            argLocation ?? callerRange.getBoundingLocation(),
-            `Duplicate named argument '${callerArgs[mismatchReason.nameIndex].name?.text}'.`
+            args.callerIdentifier.location,
+            `Cannot call the non-const method '${mismatchReason.callee.identifierText}' on a read-only object.`
         );
         return;
     } else if (mismatchReason.reason === MismatchKind.NotFoundNamedArgument) {
-        const argLocation = callerArgs[mismatchReason.nameIndex].name?.location;
+        handleNotFoundNamedArgument(args, mismatchReason.nameIndex, mismatchReason.callee);
+        return;
+    } else if (mismatchReason.reason === MismatchKind.MissingNamedArgument) {
+        const paramName = mismatchReason.callee.linkedNode.paramList[mismatchReason.paramIndex].identifier?.text;
         analyzerDiagnostic.error(
-            argLocation ?? callerRange.getBoundingLocation(),
-            `Named argument '${callerArgs[mismatchReason.nameIndex].name?.text}' does not found in '${calleeFuncHolder.identifierText}'.`
+            callerRange.getBoundingLocation(),
+            `No argument is passed to the parameter '${paramName ?? mismatchReason.paramIndex}' of '${calleeFuncHolder.identifierText}', which has no default value.`
         );
         return;
     }
@@ -461,4 +554,36 @@ function handleMismatchError(args: FunctionCallArgs, mismatchReason: MismatchRea
 
         analyzerDiagnostic.error(callerRange.getBoundingLocation(), message);
     }
-}
\ No newline at end of file
+}
+
+function handleDuplicateNamedArgument(args: FunctionCallArgs, nameIndex: number, previousIndex: number) {
+    const {callerRange, callerArgs} = args;
+    const argName = callerArgs[nameIndex].name;
+    const previousArg = callerArgs[previousIndex];
+
+    const message = previousArg.name === undefined
+        ? `The parameter '${argName?.text}' is passed both positionally and by name.`
+        : `Duplicate named argument '${argName?.text}'.`;
+
+    const previousLocation = previousArg.name?.location ?? previousArg.range?.getBoundingLocation();
+    analyzerDiagnostic.error(
+        argName?.location ?? callerRange.getBoundingLocation(),
+        message,
+        previousLocation === undefined ? undefined : [{location: previousLocation, message: 'Previously passed here.'}]
+    );
+}
+
+function handleNotFoundNamedArgument(args: FunctionCallArgs, nameIndex: number, callee: SymbolFunction) {
+    const {callerRange, callerArgs, calleeFuncHolder} = args;
+    const argName = callerArgs[nameIndex].name;
+
+    let message = `'${calleeFuncHolder.identifierText}' has no parameter named '${argName?.text}'.`;
+
+    const paramNames = callee.linkedNode.paramList.flatMap(param => param.identifier?.text ?? []);
+    const suggestion = argName === undefined ? undefined : findSimilarName(argName.text, paramNames);
+    if (suggestion !== undefined) {
+        message += ` Did you mean '${suggestion}'?`;
+    }
+
+    analyzerDiagnostic.error(argName?.location ?? callerRange.getBoundingLocation(), message);
+}
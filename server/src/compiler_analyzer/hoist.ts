@@ -10,8 +10,11 @@ import {
     NodeEnum,
     NodeFunc,
     NodeFuncDef,
+    NodeImport,
     NodeInterface,
     NodeIntfMethod,
+    NodeListOp,
+    NodeListPattern,
     NodeMixin,
     NodeName,
     NodeNamespace,
@@ -23,7 +26,14 @@ import {
     NodeVirtualProp,
     ParsedEnumMember
 } from "../compiler_parser/nodes";
-import {SymbolFunction, SymbolType, SymbolVariable} from "./symbolObject";
+import {
+    ListPatternEntry,
+    ListPatternKind,
+    ListPatternList,
+    SymbolFunction,
+    SymbolType,
+    SymbolVariable
+} from "./symbolObject";
 import {findSymbolWithParent} from "./symbolUtils";
 import {ResolvedType} from "./resolvedType";
 import {getGlobalSettings} from "../core/settings";
@@ -32,6 +42,7 @@ import {TokenIdentifier, TokenObject} from "../compiler_tokenizer/tokenObject";
 import {getIdentifierInNodeType} from "../compiler_parser/nodesUtils";
 import {
     analyzeFunc,
+    analyzeParamList,
     AnalyzeQueue,
     analyzeStatBlock,
     analyzeType,
@@ -44,19 +55,26 @@ import {analyzerDiagnostic} from "./analyzerDiagnostic";
 import {AnalyzerScope} from "./analyzerScope";
 import {TokenRange} from "../compiler_tokenizer/tokenRange";
 import {findConstructorOfType} from "./constrcutorCall";
+import {checkFunctionControlFlow} from "./controlFlow";
+import {checkInterfaceImplementation} from "./interfaceImplementation";
+import {checkMethodOverrides} from "./methodOverride";
+import {evaluateEnumValues} from "./constantEvaluator";
+import {checkMetadataSchema} from "./metadataSchema";
 
 // BNF: SCRIPT        ::= {IMPORT | ENUM | TYPEDEF | CLASS | MIXIN | INTERFACE | FUNCDEF | VIRTPROP | VAR | FUNC | NAMESPACE | ';'}
 function hoistScript(parentScope: SymbolScope, ast: NodeScript, analyzeQueue: AnalyzeQueue, hoistQueue: HoistQueue) {
     for (const statement of ast) {
         const nodeName = statement.nodeName;
-        if (nodeName === NodeName.Enum) {
-            hoistEnum(parentScope, statement);
+        if (nodeName === NodeName.Import) {
+            hoistImport(parentScope, statement, analyzeQueue, hoistQueue);
+        } else if (nodeName === NodeName.Enum) {
+            hoistEnum(parentScope, statement, analyzeQueue);
         } else if (nodeName === NodeName.TypeDef) {
             hoistTypeDef(parentScope, statement);
         } else if (nodeName === NodeName.Class) {
             hoistClass(parentScope, statement, analyzeQueue, hoistQueue);
         } else if (nodeName === NodeName.Mixin) {
-            hoistMixin(parentScope, statement, analyzeQueue, hoistQueue);
+            hoistMixin(parentScope, statement);
         } else if (nodeName === NodeName.Interface) {
             hoistInterface(parentScope, statement, analyzeQueue, hoistQueue);
         } else if (nodeName === NodeName.FuncDef) {
@@ -93,7 +111,7 @@ function hoistNamespace(parentScope: SymbolScope, nodeNamespace: NodeNamespace,
 }
 
 // BNF: ENUM          ::= {'shared' | 'external'} 'enum' IDENTIFIER [ ':' ('int' | 'int8' | 'int16' | 'int32' | 'int64' | 'uint' | 'uint8' | 'uint16' | 'uint32' | 'uint64') ] (';' | ('{' IDENTIFIER ['=' EXPR] {',' IDENTIFIER ['=' EXPR]} '}'))
-function hoistEnum(parentScope: SymbolScope, nodeEnum: NodeEnum) {
+function hoistEnum(parentScope: SymbolScope, nodeEnum: NodeEnum, analyzeQueue: AnalyzeQueue) {
     const symbol: SymbolType = SymbolType.create({
         identifierToken: nodeEnum.identifier,
         scopePath: parentScope.scopePath,
@@ -107,6 +125,12 @@ function hoistEnum(parentScope: SymbolScope, nodeEnum: NodeEnum) {
     symbol.assignMembersScopePath(scope.scopePath);
 
     hoistEnumMembers(scope, nodeEnum.memberList, new ResolvedType(symbol));
+
+    if (getGlobalSettings().duplicateEnumValues) {
+        analyzeQueue.push(() => {
+            checkDuplicateEnumValues(symbol);
+        });
+    }
 }
 
 function hoistEnumMembers(parentScope: SymbolScope, memberList: ParsedEnumMember[], type: ResolvedType) {
@@ -123,6 +147,23 @@ function hoistEnumMembers(parentScope: SymbolScope, memberList: ParsedEnumMember
     }
 }
 
+// e.g., 'Crimson' in 'enum Color { Red, Green, Crimson = 0 }' has the same value as 'Red'.
+function checkDuplicateEnumValues(enumType: SymbolType) {
+    const memberByValue = new Map<bigint, TokenObject>();
+    for (const [member, value] of evaluateEnumValues(getActiveGlobalScope(), enumType)) {
+        const duplicatedMember = memberByValue.get(value);
+        if (duplicatedMember === undefined) {
+            memberByValue.set(value, member);
+            continue;
+        }
+
+        analyzerDiagnostic.warning(
+            member.location,
+            `'${member.text}' has the same value ${value} as '${duplicatedMember.text}'.`
+        );
+    }
+}
+
 // BNF: CLASS         ::= {'shared' | 'abstract' | 'final' | 'external'} 'class' IDENTIFIER (';' | ([':' IDENTIFIER {',' IDENTIFIER}] '{' {VIRTPROP | FUNC | VAR | FUNCDEF} '}'))
 function hoistClass(parentScope: SymbolScope, nodeClass: NodeClass, analyzeQueue: AnalyzeQueue, hoistQueue: HoistQueue) {
     const symbol: SymbolType = SymbolType.create({
@@ -148,10 +189,23 @@ function hoistClass(parentScope: SymbolScope, nodeClass: NodeClass, analyzeQueue
     const templateTypes = hoistClassTemplateTypes(scope, nodeClass.typeTemplates);
     if (templateTypes.length > 0) symbol.assignTemplateTypes(templateTypes);
 
-    symbol.assignBaseList(hoistBaseList(scope, nodeClass));
+    const baseList = hoistBaseList(scope, nodeClass);
+    assertInheritableBaseList(nodeClass, baseList);
+
+    // The mixin classes in the base list are not inherited. Instead, their members and interfaces are included.
+    const mixinList = takeMixinList(baseList);
+    symbol.assignBaseList(includeMixinInterfaces(baseList, mixinList));
+
+    analyzeQueue.push(() => {
+        checkInterfaceImplementation(symbol);
+        checkMethodOverrides(symbol);
+    });
 
     hoistQueue.push(() => {
         hoistClassMembers(scope, nodeClass, analyzeQueue, hoistQueue);
+        for (const mixin of mixinList) {
+            hoistMixinMembers(scope, nodeClass, mixin, analyzeQueue, hoistQueue);
+        }
 
         hoistQueue.push(() => {
             if (symbol.baseList === undefined) return;
@@ -164,12 +218,15 @@ function hoistClass(parentScope: SymbolScope, nodeClass: NodeClass, analyzeQueue
             const baseConstructorHolder = findConstructorOfType(primeBase);
             if (baseConstructorHolder?.isFunctionHolder()) {
                 for (const baseConstructor of baseConstructorHolder.toList()) {
+                    // 'super' can be called only from the derived class, but not if the base constructor is private.
                     const superConstructor = baseConstructor.clone({
                         identifierToken: TokenIdentifier.createVirtual(
                             'super',
                             new TokenRange(baseConstructor.identifierToken, baseConstructor.identifierToken)
                         ),
-                        accessRestriction: AccessModifier.Private,
+                        accessRestriction: baseConstructor.accessRestriction === AccessModifier.Private
+                            ? AccessModifier.Private
+                            : AccessModifier.Protected,
                     });
 
                     scope.insertSymbol(superConstructor);
@@ -223,6 +280,21 @@ function hoistBaseList(scope: SymbolScope, nodeClass: NodeClass | NodeInterface)
     return baseList;
 }
 
+function assertInheritableBaseList(nodeClass: NodeClass, baseList: (ResolvedType | undefined)[] | undefined) {
+    for (let i = 0; i < (baseList?.length ?? 0); i++) {
+        const baseType = baseList?.[i]?.typeOrFunc;
+        if (baseType?.isType() !== true) continue;
+
+        const baseNode = baseType.linkedNode;
+        if (baseNode?.nodeName === NodeName.Class && baseNode.entity?.isFinal === true) {
+            analyzerDiagnostic.error(
+                nodeClass.baseList[i].location,
+                `Cannot inherit from the final class '${baseType.identifierText}'.`
+            );
+        }
+    }
+}
+
 function copyBaseMembers(scope: SymbolScope, baseList: (ResolvedType | undefined)[]) {
     // Iterate over each base class
     for (const baseType of baseList) {
@@ -234,7 +306,8 @@ function copyBaseMembers(scope: SymbolScope, baseList: (ResolvedType | undefined
 
         // Insert each base class member if possible
         for (const [key, symbolHolder] of baseScope.symbolTable) {
-            if (key === 'this') continue;
+            // 'super' of the base class refers to the constructors of its own base class.
+            if (key === 'this' || key === 'super') continue;
 
             for (const symbol of symbolHolder.toList()) {
                 if (symbol.isFunction() || symbol.isVariable()) {
@@ -342,6 +415,9 @@ function hoistFunc(
 
     hoistQueue.push(() => {
         symbol.assignParameterTypes(hoistParamList(functionScope, nodeFunc.paramList));
+        if (nodeFunc.listPattern !== undefined) {
+            symbol.assignListPattern(hoistListPattern(functionScope, nodeFunc.listPattern));
+        }
     });
 
     analyzeQueue.push(() => {
@@ -378,7 +454,7 @@ function hoistInterfaceMembers(scope: SymbolScope, nodeInterface: NodeInterface,
         if (member.nodeName === NodeName.VirtualProp) {
             hoistVirtualProp(scope, member, analyzeQueue, hoistQueue, true);
         } else if (member.nodeName === NodeName.IntfMethod) {
-            hoistIntfMethod(scope, member);
+            hoistIntfMethod(scope, member, analyzeQueue, hoistQueue);
         }
     }
 }
@@ -399,6 +475,38 @@ function hoistVar(scope: SymbolScope, nodeVar: NodeVar, analyzeQueue: AnalyzeQue
 }
 
 // BNF: IMPORT        ::= 'import' TYPE ['&'] IDENTIFIER PARAMLIST FUNCATTR 'from' STRING ';'
+function hoistImport(parentScope: SymbolScope, nodeImport: NodeImport, analyzeQueue: AnalyzeQueue, hoistQueue: HoistQueue) {
+    // The imported function is treated like a function declaration without a body.
+    // Function holder scope (with no node)
+    // |-- Anonymous scope of one of the overloads (with NodeImport)
+
+    const functionHolderScope: SymbolScope = parentScope.insertScope(nodeImport.identifier.text, undefined);
+    const functionScope = functionHolderScope.insertScope(createAnonymousIdentifier(), nodeImport);
+
+    const symbol: SymbolFunction = SymbolFunction.create({
+        identifierToken: nodeImport.identifier,
+        scopePath: parentScope.scopePath,
+        returnType: analyzeType(functionScope, nodeImport.type),
+        parameterTypes: [],
+        linkedNode: nodeImport,
+        functionScopePath: functionScope.scopePath,
+        isInstanceMember: false,
+        accessRestriction: undefined,
+    });
+    if (parentScope.insertSymbolAndCheck(symbol) === false) return;
+
+    if (nodeImport.path.isStringToken() && nodeImport.path.getStringContent().trim() === '') {
+        analyzerDiagnostic.error(nodeImport.path.location, 'Expected module name.');
+    }
+
+    hoistQueue.push(() => {
+        symbol.assignParameterTypes(hoistParamList(functionScope, nodeImport.paramList));
+    });
+
+    analyzeQueue.push(() => {
+        analyzeParamList(functionScope, nodeImport.paramList);
+    });
+}
 
 // BNF: FUNCDEF       ::= {'external' | 'shared'} 'funcdef' TYPE ['&'] IDENTIFIER PARAMLIST ';'
 function hoistFuncDef(parentScope: SymbolScope, funcDef: NodeFuncDef, analyzeQueue: AnalyzeQueue, hoistQueue: HoistQueue) {
@@ -436,6 +544,7 @@ function hoistVirtualProp(
         type: type,
         isInstanceMember: isInstanceMember,
         accessRestriction: virtualProp.accessor,
+        metadata: virtualProp.metadata,
     });
     parentScope.insertSymbolAndCheck(symbol);
 
@@ -446,6 +555,7 @@ function hoistVirtualProp(
         const statBlock = getter.statBlock;
         analyzeQueue.push(() => {
             analyzeStatBlock(getterScope, statBlock);
+            checkFunctionControlFlow(statBlock, true);
         });
     }
 
@@ -467,28 +577,128 @@ function hoistVirtualProp(
         const statBlock = setter.statBlock;
         analyzeQueue.push(() => {
             analyzeStatBlock(setterScope, statBlock);
+            checkFunctionControlFlow(statBlock, false);
         });
     }
 }
 
 // BNF: MIXIN         ::= 'mixin' CLASS
-function hoistMixin(parentScope: SymbolScope, mixin: NodeMixin, analyzeQueue: AnalyzeQueue, hoistQueue: HoistQueue) {
-    hoistClass(parentScope, mixin.mixinClass, analyzeQueue, hoistQueue);
+function hoistMixin(parentScope: SymbolScope, mixin: NodeMixin) {
+    // The mixin class is not a type but a set of members that are included in other classes.
+    // Its members are hoisted and analyzed in the scope of each class that includes it.
+    const mixinClass = mixin.mixinClass;
+    const symbol: SymbolType = SymbolType.create({
+        identifierToken: mixinClass.identifier,
+        scopePath: parentScope.scopePath,
+        linkedNode: mixinClass,
+        membersScopePath: undefined,
+        isMixin: true,
+    });
+    if (parentScope.insertSymbolAndCheck(symbol) === false) return;
+
+    // A mixin class cannot inherit from other classes, but the interfaces are passed to the including classes.
+    const baseList = hoistBaseList(parentScope, mixinClass);
+    for (let i = 0; i < (baseList?.length ?? 0); i++) {
+        const baseType = baseList?.[i]?.typeOrFunc;
+        if (baseType === undefined || baseType.isType() === false) continue;
+        if (baseType.linkedNode?.nodeName === NodeName.Interface) continue;
+
+        analyzerDiagnostic.error(
+            mixinClass.baseList[i].location,
+            `A mixin class cannot inherit from '${baseType.identifierText}'. Only interfaces are allowed.`
+        );
+        baseList![i] = undefined;
+    }
+
+    symbol.assignBaseList(baseList);
+}
+
+function takeMixinList(baseList: (ResolvedType | undefined)[] | undefined): SymbolType[] {
+    const mixinList: SymbolType[] = [];
+    for (let i = 0; i < (baseList?.length ?? 0); i++) {
+        const baseType = baseList![i]?.typeOrFunc;
+        if (baseType?.isType() && baseType.isMixin === true) {
+            mixinList.push(baseType);
+            baseList![i] = undefined;
+        }
+    }
+
+    return mixinList;
+}
+
+function includeMixinInterfaces(
+    baseList: (ResolvedType | undefined)[] | undefined, mixinList: SymbolType[]
+): (ResolvedType | undefined)[] | undefined {
+    if (mixinList.length === 0) return baseList;
+
+    const mixinInterfaces = mixinList.flatMap(mixin => mixin.baseList).filter(base => base !== undefined);
+    return [...(baseList ?? []).filter(base => base !== undefined), ...mixinInterfaces];
+}
+
+/**
+ * Includes the members of the mixin class into the class.
+ * The members declared in the class with the same name override those of the mixin class.
+ */
+function hoistMixinMembers(
+    scope: SymbolScope, nodeClass: NodeClass, mixin: SymbolType, analyzeQueue: AnalyzeQueue, hoistQueue: HoistQueue
+) {
+    const mixinClass = mixin.linkedNode;
+    if (mixinClass?.nodeName !== NodeName.Class) return;
+
+    // The members are analyzed in each including class, but their diagnostics belong to the file declaring the mixin.
+    const mixinLocation = mixinClass.nodeRange.getBoundingLocation();
+    analyzerDiagnostic.repeatedCode(mixinLocation, mixinLocation.path === scope.getContext().filepath);
+
+    const declaredNames = new Set(nodeClass.memberList.flatMap(getMemberIdentifiers).map(token => token.text));
+
+    for (const member of mixinClass.memberList) {
+        if (getMemberIdentifiers(member).some(token => declaredNames.has(token.text))) continue;
+
+        if (member.nodeName === NodeName.VirtualProp) {
+            hoistVirtualProp(scope, member, analyzeQueue, hoistQueue, true);
+        } else if (member.nodeName === NodeName.Func) {
+            hoistFunc(scope, member, analyzeQueue, hoistQueue, true);
+        } else if (member.nodeName === NodeName.Var) {
+            hoistVar(scope, member, analyzeQueue, true);
+        } else if (member.nodeName === NodeName.FuncDef) {
+            hoistFuncDef(scope, member, analyzeQueue, hoistQueue);
+        }
+    }
+}
+
+function getMemberIdentifiers(member: NodeClass['memberList'][number]): TokenObject[] {
+    if (member.nodeName === NodeName.Var) return member.variables.map(variable => variable.identifier);
+    return [member.identifier];
 }
 
 // BNF: INTFMTHD      ::= TYPE ['&'] IDENTIFIER PARAMLIST ['const'] ';'
-function hoistIntfMethod(parentScope: SymbolScope, intfMethod: NodeIntfMethod) {
+function hoistIntfMethod(parentScope: SymbolScope, intfMethod: NodeIntfMethod, analyzeQueue: AnalyzeQueue, hoistQueue: HoistQueue) {
+    // The interface method has a function scope without a body so that named arguments can refer to the parameters.
+    // Function holder scope (with no node)
+    // |-- Anonymous scope of one of the overloads (with NodeIntfMethod)
+
+    const functionHolderScope: SymbolScope = parentScope.insertScope(intfMethod.identifier.text, undefined);
+    const functionScope = functionHolderScope.insertScope(createAnonymousIdentifier(), intfMethod);
+
     const symbol: SymbolFunction = SymbolFunction.create({
         identifierToken: intfMethod.identifier,
         scopePath: parentScope.scopePath,
-        returnType: analyzeType(parentScope, intfMethod.returnType),
+        returnType: analyzeType(functionScope, intfMethod.returnType),
         parameterTypes: [],
         linkedNode: intfMethod,
-        functionScopePath: undefined, // TODO: Create a dummy function scope for the interface method because named arguments give reference
+        functionScopePath: functionScope.scopePath,
         isInstanceMember: true,
         accessRestriction: undefined,
     });
     if (parentScope.insertSymbolAndCheck(symbol) === false) return;
+
+    hoistQueue.push(() => {
+        symbol.assignParameterTypes(hoistParamList(functionScope, intfMethod.paramList));
+    });
+
+    analyzeQueue.push(() => {
+        analyzeParamList(functionScope, intfMethod.paramList);
+    });
 }
 
 // BNF: STATBLOCK     ::= '{' {VAR | STATEMENT} '}'
@@ -513,6 +723,43 @@ function hoistParamList(scope: SymbolScope, paramList: NodeParamList) {
     return resolvedTypes;
 }
 
+// BNF: LISTPATTERN   ::= '{' LISTENTRY {',' LISTENTRY} '}'
+// BNF: LISTENTRY     ::= (('repeat' | 'repeat_same') (('{' LISTENTRY '}') | TYPE)) | (TYPE {',' TYPE})
+function hoistListPattern(scope: SymbolScope, listPattern: NodeListPattern): ListPatternList {
+    const operators = listPattern.operators;
+    let cursor = 0;
+
+    const hoistEntries = (): ListPatternEntry[] => {
+        const entries: ListPatternEntry[] = [];
+        while (cursor < operators.length && operators[cursor].operator !== NodeListOp.EndList) {
+            entries.push(hoistEntry());
+        }
+
+        return entries;
+    };
+
+    const hoistEntry = (): ListPatternEntry => {
+        const operator = operators.at(cursor++);
+        if (operator?.operator === NodeListOp.Repeat || operator?.operator === NodeListOp.RepeatSame) {
+            return {
+                kind: ListPatternKind.Repeat,
+                isSame: operator.operator === NodeListOp.RepeatSame,
+                entry: hoistEntry()
+            };
+        } else if (operator?.operator === NodeListOp.StartList) {
+            const entries = hoistEntries();
+            cursor++; // Skip the corresponding 'EndList'
+            return {kind: ListPatternKind.List, entries: entries};
+        } else if (operator?.operator === NodeListOp.Type) {
+            return {kind: ListPatternKind.Type, type: analyzeType(scope, operator.type)};
+        }
+
+        return {kind: ListPatternKind.Type, type: undefined};
+    };
+
+    return {kind: ListPatternKind.List, entries: hoistEntries()};
+}
+
 // BNF: TYPEMOD       ::= ['&' ['in' | 'out' | 'inout'] ['+'] ['if_handle_then_const']]
 // BNF: TYPE          ::= ['const'] SCOPE DATATYPE ['<' TYPE {',' TYPE} '>'] { ('[' ']') | ('@' ['const']) }
 // BNF: INITLIST      ::= '{' [ASSIGN | INITLIST] {',' [ASSIGN | INITLIST]} '}'
@@ -557,6 +804,8 @@ export function hoistAfterParsed(ast: NodeScript, globalScope: SymbolGlobalScope
     const analyzeQueue: AnalyzeQueue = [];
     const hoistQueue: HoistQueue = [];
 
+    checkMetadataSchema(ast);
+
     // Hoist the declared symbols.
     hoistScript(globalScope, ast, analyzeQueue, hoistQueue);
     while (hoistQueue.length > 0) {
@@ -62,3 +62,40 @@ export interface AutoTypeResolutionInfo {
     readonly autoToken: TokenObject;
     readonly resolvedType: ResolvedType;
 }
+
+/**
+ * Represents the element type expected at a location inside an initializer list.
+ * e.g., providing `int` for `array<int> a = {1, $C$}`, where `$C$` is the caret.
+ */
+export interface InitListElementInfo {
+    readonly elementLocation: TextLocation;
+    readonly expectedType: ResolvedType;
+}
+
+/**
+ * Represents a symbol that is declared but never used.
+ * e.g., providing a quick fix to remove the declaration `int x = 1;` or to rename `x` to `_x`.
+ */
+export interface UnusedSymbolInfo {
+    readonly identifierToken: TokenObject;
+    readonly isParameter: boolean; // Only the name of the parameter is removed so that the callers remain valid.
+    readonly removalLocation: TextLocation | undefined; // undefined if the declaration cannot be removed by itself.
+}
+
+/**
+ * Represents an implicit conversion that may change the value.
+ * e.g., providing a quick fix to convert `x` explicitly to `int8(x)` in `int8 y = x;`
+ */
+export interface ImplicitConversionInfo {
+    readonly sourceLocation: TextLocation;
+    readonly destinationType: string;
+}
+
+/**
+ * Represents a reference to a symbol that is marked as deprecated.
+ * e.g., providing a quick fix to replace `oldFn` with `newFn` in `oldFn();` when `oldFn` is `[deprecated("use newFn")]`.
+ */
+export interface DeprecatedReferenceInfo {
+    readonly fromToken: TokenObject;
+    readonly replacement: string | undefined; // The name of the symbol to use instead.
+}
@@ -0,0 +1,83 @@
+import {SymbolFunction, SymbolType} from "./symbolObject";
+import {tryResolveActiveScope} from "./symbolScope";
+import {NodeName} from "../compiler_parser/nodes";
+import {analyzerDiagnostic} from "./analyzerDiagnostic";
+import {ResolvedType} from "./resolvedType";
+import {stringifySymbolObject} from "./symbolUtils";
+
+/**
+ * Checks whether the class implements all the methods of the interfaces it inherits, including those of its base classes.
+ * Abstract classes are not checked because the derived classes can implement them.
+ */
+export function checkInterfaceImplementation(classSymbol: SymbolType) {
+    const classNode = classSymbol.linkedNode;
+    if (classNode?.nodeName !== NodeName.Class || classNode.entity?.isAbstract === true) return;
+
+    const classScope = tryResolveActiveScope(classSymbol.membersScopePath);
+    if (classScope === undefined) return;
+
+    for (const interfaceSymbol of collectInterfaces(classSymbol, new Set())) {
+        const interfaceScope = tryResolveActiveScope(interfaceSymbol.membersScopePath);
+        if (interfaceScope === undefined) continue;
+
+        for (const symbolHolder of interfaceScope.symbolTable.values()) {
+            for (const interfaceMethod of symbolHolder.toList()) {
+                if (interfaceMethod.isFunction() === false || interfaceMethod.linkedNode.nodeName !== NodeName.IntfMethod) {
+                    continue;
+                }
+
+                // The interface methods copied into the class scope are not implementations.
+                const implementations = (classScope.lookupSymbol(interfaceMethod.identifierText)?.toList() ?? [])
+                    .filter(symbol => symbol.isFunction() && symbol.linkedNode.nodeName === NodeName.Func);
+
+                if (implementations.some(symbol => symbol.isFunction() && isSameSignature(symbol, interfaceMethod))) {
+                    continue;
+                }
+
+                const message = implementations.length === 0
+                    ? `'${classSymbol.identifierText}' does not implement '${stringifySymbolObject(interfaceMethod)}' of interface '${interfaceSymbol.identifierText}'.`
+                    : `'${classSymbol.identifierText}::${interfaceMethod.identifierText}' does not match the signature '${stringifySymbolObject(interfaceMethod)}' of interface '${interfaceSymbol.identifierText}'.`;
+
+                analyzerDiagnostic.error(classSymbol.identifierToken.location, message, [{
+                    location: interfaceMethod.identifierToken.location,
+                    message: `'${interfaceMethod.identifierText}' is declared here.`
+                }]);
+            }
+        }
+    }
+}
+
+function collectInterfaces(typeSymbol: SymbolType, visited: Set<SymbolType>): SymbolType[] {
+    if (visited.has(typeSymbol)) return [];
+    visited.add(typeSymbol);
+
+    const result: SymbolType[] = [];
+    if (typeSymbol.linkedNode?.nodeName === NodeName.Interface) result.push(typeSymbol);
+
+    for (const baseType of typeSymbol.baseList ?? []) {
+        if (baseType?.typeOrFunc.isType()) result.push(...collectInterfaces(baseType.typeOrFunc, visited));
+    }
+
+    return result;
+}
+
+/**
+ * Returns true if the method has the same signature as the interface method or the base class method.
+ */
+export function isSameSignature(implementation: SymbolFunction, interfaceMethod: SymbolFunction): boolean {
+    if (implementation.isConstMethod !== interfaceMethod.isConstMethod) return false;
+    if (isSameType(implementation.returnType, interfaceMethod.returnType) === false) return false;
+
+    const params = implementation.parameterTypes;
+    const interfaceParams = interfaceMethod.parameterTypes;
+    if (params.length !== interfaceParams.length) return false;
+
+    return params.every((param, i) => isSameType(param, interfaceParams[i]));
+}
+
+function isSameType(lhs: ResolvedType | undefined, rhs: ResolvedType | undefined): boolean {
+    // Unresolved types are regarded as the same to avoid cascading errors.
+    if (lhs === undefined || rhs === undefined) return true;
+
+    return lhs.equals(rhs) && (lhs.isHandler === true) === (rhs.isHandler === true);
+}
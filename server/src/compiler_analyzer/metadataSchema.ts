@@ -0,0 +1,116 @@
+import {NodeClass, NodeInterface, NodeName, NodeScript, NodeScriptMember, ParsedMetadata} from "../compiler_parser/nodes";
+import {getGlobalSettings, MetadataSchemaEntry} from "../core/settings";
+import {analyzerDiagnostic} from "./analyzerDiagnostic";
+import {TokenObject} from "../compiler_tokenizer/tokenObject";
+import {TextLocation} from "../compiler_tokenizer/textLocation";
+import {findSimilarName} from "../utils/utilities";
+
+type MetadataSchemaMap = Map<string, MetadataSchemaEntry>;
+
+type DeclarationNode = NodeScriptMember | NodeClass['memberList'][number] | NodeInterface['memberList'][number];
+
+// The metadata recognized by the language server itself.
+const builtinMetadataSchema: MetadataSchemaEntry[] = [
+    {name: 'deprecated', arguments: ['message'], description: 'Marks the declaration as deprecated.'},
+];
+
+/**
+ * Returns the metadata accepted by the schema in the settings, including the built-in ones.
+ * This is empty if the schema in the settings is empty.
+ */
+export function getMetadataSchema(): MetadataSchemaEntry[] {
+    const schema = getGlobalSettings().metadataSchema;
+    return schema.length === 0 ? [] : [...builtinMetadataSchema, ...schema];
+}
+
+/**
+ * Reports the metadata of the declarations that is not accepted by the schema in the settings.
+ * Nothing is reported if the schema is empty.
+ */
+export function checkMetadataSchema(ast: NodeScript) {
+    const schema = getMetadataSchema();
+    if (schema.length === 0) return;
+
+    const schemaMap: MetadataSchemaMap = new Map(schema.map(entry => [entry.name, entry]));
+    for (const node of ast) checkMetadataInDeclaration(schemaMap, node);
+}
+
+function checkMetadataInDeclaration(schemaMap: MetadataSchemaMap, node: DeclarationNode) {
+    switch (node.nodeName) {
+    case NodeName.Namespace:
+        for (const member of node.script) checkMetadataInDeclaration(schemaMap, member);
+        return;
+    case NodeName.Mixin:
+        checkMetadataInDeclaration(schemaMap, node.mixinClass);
+        return;
+    case NodeName.Class:
+    case NodeName.Interface:
+        node.metadata.forEach(metadata => checkMetadata(schemaMap, metadata));
+        for (const member of node.memberList) checkMetadataInDeclaration(schemaMap, member);
+        return;
+    case NodeName.Enum:
+    case NodeName.FuncDef:
+    case NodeName.VirtualProp:
+    case NodeName.Var:
+    case NodeName.Func:
+    case NodeName.IntfMethod:
+        node.metadata.forEach(metadata => checkMetadata(schemaMap, metadata));
+        return;
+    default:
+        return;
+    }
+}
+
+// e.g., '[Range(min = 0, max = 10)]'
+function checkMetadata(schemaMap: MetadataSchemaMap, metadata: ParsedMetadata) {
+    const name = metadata.name;
+    if (name === undefined) {
+        if (metadata.tokens.length > 0) {
+            analyzerDiagnostic.warning(getTokensLocation(metadata.tokens), 'Expected a metadata name.');
+        }
+
+        return;
+    }
+
+    const entry = schemaMap.get(name.text);
+    if (entry === undefined) {
+        const suggestion = findSimilarName(name.text, [...schemaMap.keys()]);
+        analyzerDiagnostic.warning(
+            name.location,
+            `Unknown metadata '${name.text}'.` + (suggestion !== undefined ? ` Did you mean '${suggestion}'?` : '')
+        );
+        return;
+    }
+
+    const argumentNames = entry.arguments ?? [];
+    const argumentTokens = metadata.tokens.slice(1);
+    if (argumentTokens.length > 0 && (argumentNames.length === 0 || metadata.argumentList === undefined)) {
+        analyzerDiagnostic.warning(
+            getTokensLocation(argumentTokens),
+            argumentNames.length === 0
+                ? `Metadata '${name.text}' takes no arguments.`
+                : `The arguments of metadata '${name.text}' must be enclosed in parentheses.`
+        );
+        return;
+    }
+
+    metadata.argumentList?.forEach((argument, i) => {
+        if (argument.name === undefined) {
+            if (i < argumentNames.length) return;
+
+            const location = argument.valueTokens.length > 0 ? getTokensLocation(argument.valueTokens) : name.location;
+            analyzerDiagnostic.warning(location, `Metadata '${name.text}' takes at most ${argumentNames.length} arguments.`);
+        } else if (argumentNames.includes(argument.name.text) === false) {
+            const suggestion = findSimilarName(argument.name.text, argumentNames);
+            analyzerDiagnostic.warning(
+                argument.name.location,
+                `Metadata '${name.text}' has no argument named '${argument.name.text}'.` +
+                (suggestion !== undefined ? ` Did you mean '${suggestion}'?` : '')
+            );
+        }
+    });
+}
+
+function getTokensLocation(tokens: TokenObject[]): TextLocation {
+    return tokens[0].location.withEnd(tokens[tokens.length - 1].location.end);
+}
@@ -0,0 +1,68 @@
+import {SymbolFunction, SymbolType} from "./symbolObject";
+import {tryResolveActiveScope} from "./symbolScope";
+import {isFuncHeadReturnValue, NodeName} from "../compiler_parser/nodes";
+import {analyzerDiagnostic} from "./analyzerDiagnostic";
+import {isSameSignature} from "./interfaceImplementation";
+
+/**
+ * Checks the 'override' and 'final' attributes of the methods declared in the class.
+ * e.g., 'void fn() override' must override a method of the base class, and 'void fn() final' cannot be overridden.
+ */
+export function checkMethodOverrides(classSymbol: SymbolType) {
+    const classNode = classSymbol.linkedNode;
+    if (classNode?.nodeName !== NodeName.Class) return;
+
+    const classScope = tryResolveActiveScope(classSymbol.membersScopePath);
+    if (classScope === undefined) return;
+
+    for (const member of classNode.memberList) {
+        if (member.nodeName !== NodeName.Func || isFuncHeadReturnValue(member.head) === false) continue;
+
+        const method = classScope.lookupSymbol(member.identifier.text)?.toList()
+            .find(symbol => symbol.isFunction() && symbol.linkedNode === member);
+        if (method === undefined || method.isFunction() === false) continue;
+
+        const overriddenMethod = collectBaseMethods(classSymbol, method.identifierText)
+            .find(baseMethod => isSameSignature(method, baseMethod));
+
+        if (overriddenMethod === undefined) {
+            if (member.funcAttr?.isOverride === true) {
+                analyzerDiagnostic.error(
+                    method.identifierToken.location,
+                    `'${classSymbol.identifierText}::${method.identifierText}' does not override any method of the base class.`
+                );
+            }
+        } else if (isFinalMethod(overriddenMethod)) {
+            analyzerDiagnostic.error(
+                method.identifierToken.location,
+                `'${classSymbol.identifierText}::${method.identifierText}' cannot override the final method.`,
+                [{
+                    location: overriddenMethod.identifierToken.location,
+                    message: `'${overriddenMethod.identifierText}' is declared as final here.`
+                }]
+            );
+        }
+    }
+}
+
+/**
+ * Collects the methods with the given name declared in the base classes and interfaces.
+ * The members scope of the base contains the inherited members as well.
+ */
+function collectBaseMethods(classSymbol: SymbolType, name: string): SymbolFunction[] {
+    const result: SymbolFunction[] = [];
+    for (const baseType of classSymbol.baseList ?? []) {
+        if (baseType === undefined || baseType.typeOrFunc.isType() === false) continue;
+
+        const baseScope = tryResolveActiveScope(baseType.typeOrFunc.membersScopePath);
+        for (const symbol of baseScope?.lookupSymbol(name)?.toList() ?? []) {
+            if (symbol.isFunction()) result.push(symbol);
+        }
+    }
+
+    return result;
+}
+
+function isFinalMethod(method: SymbolFunction): boolean {
+    return method.linkedNode.nodeName === NodeName.Func && method.linkedNode.funcAttr?.isFinal === true;
+}
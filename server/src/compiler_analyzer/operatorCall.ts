@@ -13,6 +13,7 @@ import {extendTokenLocation} from "../compiler_tokenizer/tokenUtils";
 
 type OverloadedOperatorCallArgs = {
     // For dual operators
+    callerScope: SymbolScope,
     callerOperator: TokenObject,
     alias: string,
     alias_r: string,
@@ -23,6 +24,7 @@ type OverloadedOperatorCallArgs = {
     rhsArgNames?: undefined,
 } | {
     // For the case where the alias_r is not defined.
+    callerScope: SymbolScope,
     callerOperator: TokenObject,
     alias: string,
     alias_r?: undefined, // The alias_r is not defined.
@@ -80,6 +82,7 @@ export function canComparisonOperatorCall(lhs: ResolvedType, rhs: ResolvedType):
 
 function checkOverloadedOperatorCallInternal(args: OverloadedOperatorCallArgs): ResolvedType | undefined {
     const lhsResult = checkLhsOverloadedOperatorCall({
+        callerScope: args.callerScope,
         callerOperator: args.callerOperator,
         alias: args.alias,
         lhs: args.lhs,
@@ -102,6 +105,7 @@ function checkOverloadedOperatorCallInternal(args: OverloadedOperatorCallArgs):
     // If the alias_r is defined, also check the rhs operator call.
 
     const rhsResult = checkLhsOverloadedOperatorCall({
+        callerScope: args.callerScope,
         callerOperator: args.callerOperator,
         alias: args.alias_r,
         lhs: args.rhs,
@@ -121,7 +125,10 @@ function checkOverloadedOperatorCallInternal(args: OverloadedOperatorCallArgs):
 function handleMismatchError(args: OverloadedOperatorCallArgs, lhsReason: MismatchReason, rhsReason?: MismatchReason) {
     const {callerOperator, alias, alias_r, lhs, rhs} = args;
 
-    const operatorLocation = extendTokenLocation(callerOperator, 1, 1);
+    // The unary operator has no arguments, so the location covers the operand instead of the neighboring tokens.
+    const isUnaryOperator = Array.isArray(rhs) && rhs.length === 0;
+    const operatorLocation =
+        isUnaryOperator ? args.lhsRange.getBoundingLocation() : extendTokenLocation(callerOperator, 1, 1);
 
     // FIXME: Consider the rhs reason.
 
@@ -146,6 +153,15 @@ function handleMismatchError(args: OverloadedOperatorCallArgs, lhsReason: Mismat
             return;
         }
     } else if (lhsReason.reason === MismatchKind.MismatchOverload) {
+        if (isUnaryOperator) {
+            // e.g., the non-const 'opNeg' is called on a read-only object.
+            analyzerDiagnostic.error(
+                operatorLocation,
+                `The operator '${alias}' in ${stringifyResolvedType(lhs)} cannot be called.`
+            );
+            return;
+        }
+
         const rhsText = Array.isArray(rhs) ? stringifyResolvedTypes(rhs) : stringifyResolvedType(rhs);
         analyzerDiagnostic.error(
             operatorLocation,
@@ -175,6 +191,7 @@ function hasMismatchReason(reason: ResolvedType | MismatchReason | undefined): r
 }
 
 interface LhsOperatorCallArgs {
+    callerScope: SymbolScope,
     callerOperator: TokenObject,
     alias: string,
     lhs: ResolvedType,
@@ -184,7 +201,7 @@ interface LhsOperatorCallArgs {
 }
 
 function checkLhsOverloadedOperatorCall(args: LhsOperatorCallArgs): ResolvedType | undefined | MismatchReason {
-    const {callerOperator, alias, lhs, rhs, rhsRange, rhsArgNames} = args;
+    const {callerScope, callerOperator, alias, lhs, rhs, rhsRange, rhsArgNames} = args;
 
     const rhsArgs = Array.isArray(args.rhs) ? args.rhs : [args.rhs];
 
@@ -217,7 +234,9 @@ function checkLhsOverloadedOperatorCall(args: LhsOperatorCallArgs): ResolvedType
         callerRange: new TokenRange(callerOperator, callerOperator),
         callerArgs: callerArgs,
         calleeFuncHolder: aliasFunction,
-        calleeTemplateTranslator: lhs.templateTranslator // FIXME?
+        calleeTemplateTranslator: lhs.templateTranslator, // FIXME?
+        callerIsConst: lhs.isConst,
+        callerScope: callerScope
     });
 
     if (evaluated.bestMatching === undefined) {
@@ -28,7 +28,11 @@ export function applyTemplateTranslator(target: ResolvedType | undefined, transl
         // The target has no templates.
         if (target.typeOrFunc.isType() && target.typeOrFunc.isTypeParameter) {
             // If the target is a type parameter such as `T`, translate it.
-            return translator.get(target.typeOrFunc.identifierToken) ?? target;
+            const translated = translator.get(target.typeOrFunc.identifierToken);
+            if (translated === undefined) return target;
+
+            // e.g., `T@` is translated to `Object@` when `T` is `Object`
+            return target.isHandler === true ? translated.cloneWithHandle(true) : translated;
         }
 
         return target;
@@ -62,6 +66,10 @@ export class ResolvedType {
         public readonly typeOrFunc: SymbolType | SymbolFunction,
         public readonly isHandler?: boolean,
         public readonly templateTranslator?: TemplateTranslator,
+        // Whether the value is read-only. e.g., `const int` or `const Object@`
+        public readonly isConst?: boolean,
+        // Whether the handle itself is read-only. e.g., `Object@ const`
+        public readonly isHandleConst?: boolean,
     ) {
     }
 
@@ -69,8 +77,12 @@ export class ResolvedType {
         typeOrFunc: SymbolType | SymbolFunction
         isHandler?: boolean
         templateTranslator?: TemplateTranslator
+        isConst?: boolean
+        isHandleConst?: boolean
     }) {
-        return new ResolvedType(args.typeOrFunc, args.isHandler, args.templateTranslator);
+        return new ResolvedType(
+            args.typeOrFunc, args.isHandler, args.templateTranslator, args.isConst, args.isHandleConst
+        );
     }
 
     // public clone(): ResolvedType {
@@ -78,7 +90,29 @@ export class ResolvedType {
     // }
 
     public cloneWithTemplateTranslator(templateTranslator: TemplateTranslator | undefined): ResolvedType {
-        return new ResolvedType(this.typeOrFunc, this.isHandler, templateTranslator);
+        return new ResolvedType(this.typeOrFunc, this.isHandler, templateTranslator, this.isConst, this.isHandleConst);
+    }
+
+    public cloneWithConst(isConst: boolean): ResolvedType {
+        if (this.isConst === isConst) return this;
+        return new ResolvedType(this.typeOrFunc, this.isHandler, this.templateTranslator, isConst, this.isHandleConst);
+    }
+
+    /**
+     * Returns the type of the member accessed through a read-only object.
+     * For a handle, only the handle itself becomes read-only, and the object it refers to can still be modified.
+     * e.g., 'int' --> 'const int', 'Object@' --> 'Object@ const'
+     */
+    public cloneAsReadOnlyMember(): ResolvedType {
+        if (this.isHandler !== true) return this.cloneWithConst(true);
+
+        if (this.isHandleConst === true) return this;
+        return new ResolvedType(this.typeOrFunc, this.isHandler, this.templateTranslator, this.isConst, true);
+    }
+
+    public cloneWithHandle(isHandler: boolean): ResolvedType {
+        if (this.isHandler === isHandler) return this;
+        return new ResolvedType(this.typeOrFunc, isHandler, this.templateTranslator, this.isConst, this.isHandleConst);
     }
 
     public get scopePath(): ScopePath | undefined {
@@ -1,13 +1,16 @@
 import {
     AccessModifier,
+    NodeAssign,
     NodeClass,
     NodeEnum,
     NodeFunc,
     NodeFuncDef,
+    NodeImport,
     NodeInterface,
     NodeIntfMethod,
     NodeName,
-    NodeBase
+    NodeBase,
+    ParsedMetadata
 } from "../compiler_parser/nodes";
 import {ResolvedType} from "./resolvedType";
 import {TokenObject} from "../compiler_tokenizer/tokenObject";
@@ -18,6 +21,11 @@ import assert = require("node:assert");
  */
 export type TypeDefinitionNode = NodeEnum | NodeClass | NodeInterface;
 
+/**
+ * A node that represents a function declaration.
+ */
+export type FunctionDefinitionNode = NodeFunc | NodeFuncDef | NodeIntfMethod | NodeImport;
+
 export function isNodeEnumOrClassOrInterface(type: NodeBase | undefined): type is NodeClass {
     if (type === undefined) return false;
     return type.nodeName === NodeName.Enum || type.nodeName === NodeName.Class || type.nodeName === NodeName.Interface;
@@ -103,6 +111,8 @@ export class SymbolType extends SymbolBase implements SymbolHolder {
         private _baseList?: (ResolvedType | undefined)[],
         public readonly isHandler?: boolean,
         public readonly multipleEnumCandidates?: SymbolVariable[],
+        // Whether this is a mixin class, whose members are included in other classes (i.e., true when this is 'M' in 'mixin class M')
+        public readonly isMixin?: boolean,
     ) {
         super();
 
@@ -122,6 +132,7 @@ export class SymbolType extends SymbolBase implements SymbolHolder {
         baseList?: (ResolvedType | undefined)[]
         isHandler?: boolean,
         multipleEnumCandidates?: SymbolVariable[],
+        isMixin?: boolean,
     }) {
         return new SymbolType(
             args.identifierToken,
@@ -132,7 +143,8 @@ export class SymbolType extends SymbolBase implements SymbolHolder {
             args.templateTypes,
             args.baseList,
             args.isHandler,
-            args.multipleEnumCandidates
+            args.multipleEnumCandidates,
+            args.isMixin
         );
     }
 
@@ -140,6 +152,13 @@ export class SymbolType extends SymbolBase implements SymbolHolder {
         return this._membersScopePath;
     }
 
+    /**
+     * The metadata declared before the type. e.g., '[Serializable]' in '[Serializable] class Foo { }'
+     */
+    public get metadata(): ParsedMetadata[] {
+        return this.linkedNode?.metadata ?? [];
+    }
+
     public assignMembersScopePath(scope: ScopePath | undefined) {
         assert(this._membersScopePath === undefined);
         this._membersScopePath = scope;
@@ -187,6 +206,11 @@ export class SymbolType extends SymbolBase implements SymbolHolder {
         return this.identifierToken.isReservedToken() && this.identifierToken.property.isNumber;
     }
 
+    public isIntegerType(): boolean {
+        return this.identifierToken.isReservedToken() &&
+            (this.identifierToken.property.isSignedInteger || this.identifierToken.property.isUnsignedInteger);
+    }
+
     public isEnumType(): boolean {
         return this.linkedNode?.nodeName === NodeName.Enum;
     }
@@ -215,6 +239,10 @@ export class SymbolVariable extends SymbolBase implements SymbolHolder {
         public readonly type: ResolvedType | undefined,
         public readonly isInstanceMember: boolean,
         public readonly accessRestriction: AccessModifier | undefined,
+        // The initializer of the read-only variable, which can be evaluated at compile time. e.g., '1 + 2' in 'const int x = 1 + 2;'
+        public readonly constantInitializer?: NodeAssign,
+        // The metadata declared before the variable. e.g., '[Editable]' in '[Editable] int x;'
+        public readonly metadata: ParsedMetadata[] = [],
     ) {
         super();
     }
@@ -225,13 +253,17 @@ export class SymbolVariable extends SymbolBase implements SymbolHolder {
         type: ResolvedType | undefined
         isInstanceMember: boolean
         accessRestriction: AccessModifier | undefined,
+        constantInitializer?: NodeAssign,
+        metadata?: ParsedMetadata[],
     }) {
         return new SymbolVariable(
             args.identifierToken,
             args.scopePath,
             args.type,
             args.isInstanceMember,
-            args.accessRestriction
+            args.accessRestriction,
+            args.constantInitializer,
+            args.metadata
         );
     }
 
@@ -252,6 +284,36 @@ export class SymbolVariable extends SymbolBase implements SymbolHolder {
     }
 }
 
+export enum ListPatternKind {
+    Type = 'Type',
+    Repeat = 'Repeat',
+    List = 'List',
+}
+
+/**
+ * A resolved entry of the list pattern for an initializer list.
+ * e.g., `dictionary(int &in) {repeat {string, ?}}` is resolved to the following:
+ * List [Repeat (List [Type string, Type ?])]
+ */
+export type ListPatternEntry = ListPatternType | ListPatternRepeat | ListPatternList;
+
+export interface ListPatternType {
+    readonly kind: ListPatternKind.Type;
+    readonly type: ResolvedType | undefined;
+}
+
+export interface ListPatternRepeat {
+    readonly kind: ListPatternKind.Repeat;
+    // 'repeat_same' requires the same number of elements for every occurrence of the entry.
+    readonly isSame: boolean;
+    readonly entry: ListPatternEntry;
+}
+
+export interface ListPatternList {
+    readonly kind: ListPatternKind.List;
+    readonly entries: ListPatternEntry[];
+}
+
 export class SymbolFunction extends SymbolBase {
     public get kind(): SymbolKind {
         return SymbolKind.Function;
@@ -260,7 +322,7 @@ export class SymbolFunction extends SymbolBase {
     constructor(
         public readonly identifierToken: TokenObject,
         public readonly scopePath: ScopePath,
-        public readonly linkedNode: NodeFunc | NodeFuncDef | NodeIntfMethod,
+        public readonly linkedNode: FunctionDefinitionNode,
         public readonly functionScopePath: ScopePath | undefined,
         private _returnType: ResolvedType | undefined,
         private _parameterTypes: (ResolvedType | undefined)[],
@@ -268,6 +330,7 @@ export class SymbolFunction extends SymbolBase {
         public readonly accessRestriction: AccessModifier | undefined,
         // Template type parameters (i.e., 'class A<T, U>' has two template types 'T' and 'U')
         private _templateTypes?: TokenObject[],
+        private _listPattern?: ListPatternList,
     ) {
         super();
     }
@@ -275,7 +338,7 @@ export class SymbolFunction extends SymbolBase {
     public static create(args: {
         identifierToken: TokenObject
         scopePath: ScopePath
-        linkedNode: NodeFunc | NodeFuncDef | NodeIntfMethod
+        linkedNode: FunctionDefinitionNode
         functionScopePath: ScopePath | undefined,
         returnType: ResolvedType | undefined
         parameterTypes: (ResolvedType | undefined)[]
@@ -330,6 +393,35 @@ export class SymbolFunction extends SymbolBase {
         this._templateTypes = templateTypes;
     }
 
+    /**
+     * Whether the method can be called on a read-only object. e.g., `int get() const`
+     */
+    public get isConstMethod(): boolean {
+        const node = this.linkedNode;
+        return (node.nodeName === NodeName.Func || node.nodeName === NodeName.IntfMethod) && node.isConst;
+    }
+
+    /**
+     * The metadata declared before the function. e.g., '[Command]' in '[Command] void run() { }'
+     */
+    public get metadata(): ParsedMetadata[] {
+        const node = this.linkedNode;
+        return node.nodeName === NodeName.Import ? [] : node.metadata;
+    }
+
+    /**
+     * The list pattern of the list constructor or list factory.
+     * e.g., `{repeat T}` in `array<T>@ f(int &in) {repeat T}`
+     */
+    public get listPattern(): ListPatternList | undefined {
+        return this._listPattern;
+    }
+
+    public assignListPattern(listPattern: ListPatternList) {
+        assert(this._listPattern === undefined);
+        this._listPattern = listPattern;
+    }
+
     // public mutate(): Mutable<this> {
     //     return this;
     // }
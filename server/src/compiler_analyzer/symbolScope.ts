@@ -13,10 +13,13 @@ import {
     NodeForEach,
     NodeFunc,
     NodeIf,
+    NodeImport,
     NodeInterface,
+    NodeIntfMethod,
     NodeLambda,
     NodeName, NodeNamespace,
     NodeStatBlock,
+    NodeSwitch,
     NodeTry,
     NodeVirtualProp,
     NodeWhile
@@ -24,9 +27,11 @@ import {
 import {
     AutoTypeResolutionInfo,
     FunctionCallInfo,
+    ImplicitConversionInfo,
+    InitListElementInfo,
     AutocompleteInstanceMemberInfo,
     AutocompleteNamespaceAccessInfo,
-    ScopeRegionInfo, ReferenceInfo
+    ScopeRegionInfo, ReferenceInfo, UnusedSymbolInfo, DeprecatedReferenceInfo
 } from "./info";
 import {getGlobalSettings} from "../core/settings";
 import {analyzerDiagnostic} from "./analyzerDiagnostic";
@@ -48,6 +53,10 @@ interface DetailScopeInformation {
     autocompleteNamespaceAccess: AutocompleteNamespaceAccessInfo[];
     functionCall: FunctionCallInfo[];
     autoTypeResolution: AutoTypeResolutionInfo[];
+    initListElement: InitListElementInfo[];
+    unusedSymbol: UnusedSymbolInfo[];
+    implicitConversion: ImplicitConversionInfo[];
+    deprecatedReference: DeprecatedReferenceInfo[];
 }
 
 interface GlobalScopeContext {
@@ -69,6 +78,10 @@ function createGlobalScopeContext(): GlobalScopeContext {
             autocompleteNamespaceAccess: [],
             functionCall: [],
             autoTypeResolution: [],
+            initListElement: [],
+            unusedSymbol: [],
+            implicitConversion: [],
+            deprecatedReference: [],
         }
     };
 }
@@ -83,6 +96,8 @@ export type ScopeLinkedNode =
     | NodeVirtualProp
     | NodeInterface
     | NodeFunc
+    | NodeImport
+    | NodeIntfMethod
     | NodeLambda
 
     // Statement nodes
@@ -92,6 +107,7 @@ export type ScopeLinkedNode =
     | NodeWhile
     | NodeDoWhile
     | NodeIf
+    | NodeSwitch
     | NodeTry;
 
 interface ScopeLinkedNamespaceNode {
@@ -182,7 +198,8 @@ export class SymbolScope {
      * Note: Since the parent scope has an identifier related to the function, the function scope is anonymous.
      */
     public isFunctionScope(): boolean {
-        return this.linkedNode?.nodeName === NodeName.Func;
+        const nodeName = this.linkedNode?.nodeName;
+        return nodeName === NodeName.Func || nodeName === NodeName.IntfMethod || nodeName === NodeName.Import;
     }
 
     public isAnonymousScope(): boolean {
@@ -448,7 +465,7 @@ function isSourceBuiltinString(source: TypeDefinitionNode | undefined): boolean
 
     // Check if the class has a metadata that indicates it is a built-in string type.
     const builtinStringMetadata = "BuiltinString";
-    if (source.metadata.some(m => m.length === 1 && m[0].text === builtinStringMetadata)) {
+    if (source.metadata.some(m => m.tokens.length === 1 && m.name?.text === builtinStringMetadata)) {
         return true;
     }
 
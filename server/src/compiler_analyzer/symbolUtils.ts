@@ -1,4 +1,6 @@
-import {SymbolFunction, SymbolObject, SymbolObjectHolder, SymbolType, SymbolVariable} from "./symbolObject";
+import {
+    SymbolFunction, SymbolFunctionHolder, SymbolObject, SymbolObjectHolder, SymbolType, SymbolVariable
+} from "./symbolObject";
 import {
     isAnonymousIdentifier,
     isScopeChildOrGrandchild,
@@ -10,6 +12,7 @@ import {ResolvedType} from "./resolvedType";
 import {AccessModifier, NodeName} from "../compiler_parser/nodes";
 import {canDownCast} from "./typeConversion";
 import assert = require("node:assert");
+import {builtinAnyType, builtinNullType} from "./builtinType";
 
 export function isResolvedAutoType(type: ResolvedType | undefined): boolean {
     return type !== undefined && type.typeOrFunc instanceof SymbolType && type.typeOrFunc.identifierText === 'auto';
@@ -53,20 +56,48 @@ export function stringifyResolvedType(type: ResolvedType | undefined): string {
     return type.typeOrFunc.identifierText + suffix;
 }
 
+/**
+ * Whether the type can hold a handle, i.e., it can be assigned or compared with 'null'.
+ * e.g., `Object@`, a function handle and `?`
+ */
+export function canHoldHandle(type: ResolvedType): boolean {
+    if (type.isHandler === true || type.typeOrFunc.isFunction()) return true;
+
+    const typeOrFunc = type.typeOrFunc;
+    return typeOrFunc === builtinNullType || typeOrFunc === builtinAnyType || typeOrFunc.isTypeParameter === true;
+}
+
+/**
+ * Whether a handle of the value can be taken by '@'. Primitive and enum values cannot be referenced by a handle.
+ */
+export function canTakeHandle(type: ResolvedType): boolean {
+    if (canHoldHandle(type)) return true;
+
+    const typeOrFunc = type.typeOrFunc;
+    return typeOrFunc.isType() && typeOrFunc.isPrimitiveOrEnum() === false;
+}
+
 export function stringifyResolvedTypes(types: (ResolvedType | undefined)[]): string {
     return types.map(t => stringifyResolvedType(t)).join(', ');
 }
 
 /**
  * Build a string representation of a symbol object.
+ * The parameter names of the function are included if requested, e.g., 'int area(int w, bool h)'
  */
-export function stringifySymbolObject(symbol: SymbolObject): string {
+export function stringifySymbolObject(symbol: SymbolObject, withParameterNames: boolean = false): string {
     const fullName = symbol.identifierToken.text; // `${stringifyScopeSuffix(symbol.scopePath)}${symbol.identifierToken.text}`;
     if (symbol instanceof SymbolType) {
         return fullName;
     } else if (symbol instanceof SymbolFunction) {
         const head = symbol.returnType === undefined ? '' : stringifyResolvedType(symbol.returnType) + ' ';
-        return `${head}${fullName}(${stringifyResolvedTypes(symbol.parameterTypes)})`;
+        if (withParameterNames === false) return `${head}${fullName}(${stringifyResolvedTypes(symbol.parameterTypes)})`;
+
+        const params = symbol.parameterTypes.map((type, i) => {
+            const identifier = symbol.linkedNode.paramList[i]?.identifier;
+            return stringifyResolvedType(type) + (identifier === undefined ? '' : ' ' + identifier.text);
+        });
+        return `${head}${fullName}(${params.join(', ')})`;
     } else if (symbol instanceof SymbolVariable) {
         return `${stringifyResolvedType(symbol.type)} ${fullName}`;
     }
@@ -138,10 +169,13 @@ export function findSymbolWithParent(scope: SymbolScope, identifier: string): Sy
 /**
  * Check if the accessing scope is allowed to access the instance member.
  * @param accessingScope
- * @param instanceMember
+ * @param instanceMember The member itself, or the holder whose first symbol is checked.
  */
-export function canAccessInstanceMember(accessingScope: SymbolScope, instanceMember: SymbolObjectHolder): boolean {
-    const instanceMemberSymbol = instanceMember.toList()[0]; // FIXME: What if there are multiple functions?
+export function canAccessInstanceMember(
+    accessingScope: SymbolScope, instanceMember: SymbolObject | SymbolObjectHolder
+): boolean {
+    // FIXME: What if there are multiple functions in the holder?
+    const instanceMemberSymbol = instanceMember instanceof SymbolFunctionHolder ? instanceMember.first : instanceMember;
 
     if (instanceMemberSymbol.isType()) return true;
 
@@ -170,4 +204,12 @@ export function canAccessInstanceMember(accessingScope: SymbolScope, instanceMem
     } else {
         assert(false);
     }
+}
+
+/**
+ * Returns the message for the member that cannot be accessed, e.g., "'x' is private and cannot be accessed here."
+ */
+export function stringifyInaccessibleMember(instanceMember: SymbolVariable | SymbolFunction): string {
+    const restriction = instanceMember.accessRestriction === AccessModifier.Protected ? 'protected' : 'private';
+    return `'${instanceMember.identifierText}' is ${restriction} and cannot be accessed here.`;
 }
\ No newline at end of file
@@ -2,7 +2,7 @@ import {stringifyResolvedType} from "./symbolUtils";
 import {ResolvedType} from "./resolvedType";
 import {analyzerDiagnostic} from "./analyzerDiagnostic";
 import {TokenRange} from "../compiler_tokenizer/tokenRange";
-import {evaluateConversionCost} from "./typeConversion";
+import {ConversionType, evaluateConversionCost} from "./typeConversion";
 import {causeTypeConversionSideEffect} from "./typeConversionSideEffect";
 
 /**
@@ -13,8 +13,9 @@ export function assertTypeCast(
     src: ResolvedType | undefined,
     dest: ResolvedType | undefined,
     nodeRange: TokenRange,
+    type: ConversionType = ConversionType.Implicit
 ): boolean {
-    if (checkTypeCast(src, dest, nodeRange)) return true;
+    if (checkTypeCast(src, dest, nodeRange, type)) return true;
 
     analyzerDiagnostic.error(
         nodeRange.getBoundingLocation(),
@@ -31,14 +32,15 @@ export function assertTypeCast(
 export function checkTypeCast(
     src: ResolvedType | undefined,
     dest: ResolvedType | undefined,
-    nodeRange?: TokenRange
+    nodeRange?: TokenRange,
+    type: ConversionType = ConversionType.Implicit
 ): boolean {
     if (src === undefined || dest === undefined) return true;
 
-    const cost = evaluateConversionCost(src, dest);
+    const cost = evaluateConversionCost(src, dest, type);
     if (cost === undefined) return false;
 
-    causeTypeConversionSideEffect(src, dest, nodeRange);
+    causeTypeConversionSideEffect(src, dest, nodeRange, type);
     return true;
 }
 
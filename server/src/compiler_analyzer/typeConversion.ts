@@ -2,7 +2,8 @@ import {ResolvedType} from "./resolvedType";
 import {resolveActiveScope} from "./symbolScope";
 import {isNodeClassOrInterface, SymbolFunction, SymbolType} from "./symbolObject";
 import {NodeName} from "../compiler_parser/nodes";
-import {resolvedBuiltinInt, resolvedBuiltinUInt} from "./builtinType";
+import {builtinNullType, resolvedBuiltinInt, resolvedBuiltinUInt} from "./builtinType";
+import {canHoldHandle} from "./symbolUtils";
 import assert = require("node:assert");
 
 export enum ConversionType {
@@ -39,10 +40,11 @@ enum ConversionConst {
 export function evaluateConversionCost(
     src: ResolvedType | undefined,
     dest: ResolvedType | undefined,
-    // type: ConversionType = ConversionType.Implicit // TODO?
+    type: ConversionType = ConversionType.Implicit
 ): ConversionConst | undefined {
     const initialState: EvaluationState = {
         allowObjectConstruct: true,
+        type: type,
     };
 
     return evaluateConversionCostInternal(initialState, src, dest);
@@ -50,19 +52,25 @@ export function evaluateConversionCost(
 
 interface EvaluationState {
     allowObjectConstruct: boolean,
+    // Explicit constructors and 'opConv' are not used in implicit conversions.
+    readonly type: ConversionType,
 }
 
 function evaluateConversionCostInternal(
     state: EvaluationState,
     src: ResolvedType | undefined,
     dest: ResolvedType | undefined,
-    // type: ConversionType = ConversionType.Implicit // TODO?
 ): ConversionConst | undefined {
     src = normalizeType(src);
     dest = normalizeType(dest);
 
     if (src === undefined || dest === undefined) return ConversionConst.Unknown;
 
+    if (src.typeOrFunc === builtinNullType || dest.typeOrFunc === builtinNullType) {
+        // The null handle can be converted only to a type that can hold a handle.
+        return src.typeOrFunc === builtinNullType && canHoldHandle(dest) ? ConversionConst.NoConv : undefined;
+    }
+
     const srcTypeOrFunc = src.typeOrFunc;
     const destTypeOrFunc = dest.typeOrFunc;
 
@@ -97,7 +105,7 @@ function evaluateConversionCostInternal(
             return evaluateConvPrimitiveToPrimitive(src, dest);
         } else {
             // Source is an object type
-            return evaluateConvObjectToPrimitive(src, dest);
+            return evaluateConvObjectToPrimitive(state, src, dest);
         }
     } else {
         // Destination is an object type defined by a user
@@ -115,7 +123,7 @@ function evaluateConversionCostInternal(
 // A primitive to a primitive
 // as_compiler.cpp: ImplicitConvPrimitiveToPrimitive
 
-const numberSizeInBytes = new Map<string, number>([
+export const numberSizeInBytes = new Map<string, number>([
     ['double', 8],
     ['float', 4],
     ['int64', 8],
@@ -130,7 +138,7 @@ const numberSizeInBytes = new Map<string, number>([
     // Note: int32 and uint32 are normalized to int and uint respectively at the beginning of the evaluation.
 ]);
 
-const sizeof_int32 = 4;
+export const sizeof_int32 = 4;
 
 function evaluateConvPrimitiveToPrimitive(
     src: ResolvedType,
@@ -213,7 +221,11 @@ const numberConversionCostTable = new Map<string, string[]>([
     ['uint8', ['uint8', 'int8', 'uint16', 'int16', 'uint', 'int', 'uint64', 'int64', 'double', 'float']],
 ]);
 
-function evaluateConvObjectToPrimitive(src: ResolvedType, dest: ResolvedType): ConversionConst | undefined {
+function evaluateConvObjectToPrimitive(
+    state: EvaluationState,
+    src: ResolvedType,
+    dest: ResolvedType
+): ConversionConst | undefined {
     const srcType = src.typeOrFunc;
     const destType = dest.typeOrFunc;
 
@@ -222,8 +234,7 @@ function evaluateConvObjectToPrimitive(src: ResolvedType, dest: ResolvedType): C
 
     // FIXME: An explicit handle cannot be converted to a primitive
 
-    // FIXME: Consider ConversionType
-    const convFuncList = collectOpConvFunctions(srcType);
+    const convFuncList = collectOpConvFunctions(state, srcType);
 
     let selectedConvFunc: SymbolFunction | undefined = undefined;
     if (destType.isNumberType()) {
@@ -257,7 +268,7 @@ function evaluateConvObjectToPrimitive(src: ResolvedType, dest: ResolvedType): C
     const returnType = selectedConvFunc.returnType;
     assert(returnType !== undefined);
 
-    return ConversionConst.ObjToPrimitiveConv + (evaluateConvObjectToPrimitive(returnType, dest) ?? 0);
+    return ConversionConst.ObjToPrimitiveConv + (evaluateConvObjectToPrimitive(state, returnType, dest) ?? 0);
 
     // FIXME: Add more process?
 }
@@ -306,7 +317,7 @@ function evaluateConvObjectToObject(
     if (constByConstructor !== undefined) return constByConstructor;
 
     // Check the conversion using the opConv and opImpl function.
-    const convFuncList = collectOpConvFunctions(srcType);
+    const convFuncList = collectOpConvFunctions(state, srcType);
     for (const convFunc of convFuncList) {
         if (convFunc.returnType?.equals(dest)) {
             return ConversionConst.ToObjectConv;
@@ -358,6 +369,9 @@ function evaluateConversionByConstructor(
         // The constructor should be one argument.
         if (constructor.parameterTypes.length !== 1) continue;
 
+        // The explicit constructor is not used in implicit conversions, e.g., 'explicit Foo(int)'
+        if (state.type === ConversionType.Implicit && isExplicitFunction(constructor)) continue;
+
         // The parameter of the constructor must be not a function but a type.
         const paramType = constructor.parameterTypes[0];
         if (paramType === undefined || paramType.typeOrFunc.isType() === false) continue;
@@ -454,18 +468,23 @@ function areTemplateTypesEqual(src: ResolvedType, dest: ResolvedType): boolean {
     return true;
 }
 
-function collectOpConvFunctions(srcType: SymbolType | SymbolFunction) {
-    // TODO: Consider implicit or explicit
+function collectOpConvFunctions(state: EvaluationState, srcType: SymbolType | SymbolFunction) {
+    // 'opConv' is only used in explicit conversions, e.g., 'int(obj)'
+    const convFuncNames = state.type === ConversionType.Implicit ? ['opImplConv'] : ['opConv', 'opImplConv'];
 
     const convFuncList: SymbolFunction[ ] = [];
     const srcMembers =
         resolveActiveScope(srcType.scopePath).lookupScope(srcType.identifierText)?.symbolTable.values() ?? [];
     for (const methodHolder of srcMembers) {
-        if (methodHolder.isFunctionHolder() && ['opConv', 'opImplConv'].includes(methodHolder.identifierText)
-        ) {
-            convFuncList.push(...methodHolder.toList());
+        if (methodHolder.isFunctionHolder() && convFuncNames.includes(methodHolder.identifierText)) {
+            convFuncList.push(...methodHolder.toList().filter(
+                convFunc => state.type !== ConversionType.Implicit || isExplicitFunction(convFunc) === false));
         }
     }
 
     return convFuncList;
 }
+
+function isExplicitFunction(func: SymbolFunction): boolean {
+    return func.linkedNode.nodeName === NodeName.Func && func.linkedNode.funcAttr?.isExplicit === true;
+}
@@ -1,11 +1,18 @@
 import {ResolvedType} from "./resolvedType";
 import {getActiveGlobalScope, resolveActiveScope} from "./symbolScope";
 import {TokenRange} from "../compiler_tokenizer/tokenRange";
+import {ConversionType, numberSizeInBytes, sizeof_int32} from "./typeConversion";
+import {SymbolType} from "./symbolObject";
+import {getGlobalSettings} from "../core/settings";
+import {analyzerDiagnostic} from "./analyzerDiagnostic";
+import {TokenObject} from "../compiler_tokenizer/tokenObject";
+import {canRepresentConstant, changesSignOfConstant, ConstantValue} from "./constantEvaluator";
 
 export function causeTypeConversionSideEffect(
     src: ResolvedType | undefined,
     dest: ResolvedType | undefined,
-    nodeRange?: TokenRange
+    nodeRange?: TokenRange,
+    type: ConversionType = ConversionType.Implicit
 ) {
     if (src === undefined || dest === undefined) {
         return false;
@@ -23,5 +30,144 @@ export function causeTypeConversionSideEffect(
         }
     }
 
-    // TODO: Implement output warning for type conversion.
+    if (nodeRange !== undefined && type === ConversionType.Implicit) {
+        checkImplicitNumberConversion(src, dest, nodeRange);
+    }
+}
+
+/**
+ * Warns the constant value that cannot be stored in the destination number type.
+ * e.g., '300' in 'int8 x = 300;' or '1.5' in 'int x = 1.5;'
+ * The constant whose sign only changes is warned as a sign change. e.g., '~0' in 'uint x = ~0;'
+ */
+export function checkConstantConversion(value: ConstantValue | undefined, dest: ResolvedType | undefined, nodeRange: TokenRange) {
+    if (value === undefined || dest === undefined) return;
+
+    const destType = dest.typeOrFunc;
+    if (destType.isType() === false || destType.isNumberType() === false) return;
+
+    if (canRepresentConstant(value, destType)) return;
+
+    const location = nodeRange.getBoundingLocation();
+    if (changesSignOfConstant(value, destType)) {
+        if (isEnabledKind(ImplicitConversionKind.SignChange) === false) return;
+
+        analyzerDiagnostic.warning(location, `The constant value ${value} changes its sign in '${destType.identifierText}'.`);
+    } else if (typeof value === 'number' && Number.isInteger(value) === false && destType.isIntegerType()) {
+        analyzerDiagnostic.warning(location, `The constant value ${value} loses the fractional part in '${destType.identifierText}'.`);
+    } else {
+        analyzerDiagnostic.warning(location, `The constant value ${value} does not fit in '${destType.identifierText}'.`);
+    }
+
+    getActiveGlobalScope().info.implicitConversion.push({
+        sourceLocation: location,
+        destinationType: destType.identifierText
+    });
+}
+
+enum ImplicitConversionKind {
+    Narrowing = 'Narrowing',
+    FractionalPart = 'FractionalPart',
+    SignChange = 'SignChange',
+}
+
+/**
+ * Warns the implicit conversion between number types that may change the value.
+ * e.g., 'x' in 'int8 y = x;' where 'x' is 'int64'
+ */
+function checkImplicitNumberConversion(src: ResolvedType, dest: ResolvedType, nodeRange: TokenRange) {
+    const message = getImplicitConversionWarning(src, dest);
+    if (message === undefined) return;
+
+    // The values of the literals are known, so their conversions are not warned. e.g., '1' in 'int8 x = 1;'
+    if (isLiteralRange(nodeRange)) return;
+
+    const location = nodeRange.getBoundingLocation();
+    analyzerDiagnostic.warning(location, message);
+
+    getActiveGlobalScope().info.implicitConversion.push({
+        sourceLocation: location,
+        destinationType: dest.identifierText
+    });
+}
+
+/**
+ * Warns the implicit conversion of the value returned by 'opForValue{N}' to the 'foreach' variable.
+ * No quick fix is provided since there is no expression to convert explicitly.
+ * e.g., 'int8 x' in 'foreach (int8 x : values)' where 'opForValue' returns 'int'
+ */
+export function checkForEachValueConversion(src: ResolvedType, dest: ResolvedType, nodeRange: TokenRange) {
+    const message = getImplicitConversionWarning(src, dest);
+    if (message === undefined) return;
+
+    analyzerDiagnostic.warning(nodeRange.getBoundingLocation(), message);
+}
+
+function getImplicitConversionWarning(src: ResolvedType, dest: ResolvedType): string | undefined {
+    const srcType = src.typeOrFunc;
+    const destType = dest.typeOrFunc;
+    if (srcType.isType() === false || destType.isType() === false) return undefined;
+
+    const kind = classifyImplicitConversion(srcType, destType);
+    if (kind === undefined || isEnabledKind(kind) === false) return undefined;
+
+    return stringifyImplicitConversion(kind, srcType, destType);
+}
+
+function classifyImplicitConversion(srcType: SymbolType, destType: SymbolType): ImplicitConversionKind | undefined {
+    if (srcType.isNumberType() === false || destType.isNumberType() === false) return undefined;
+
+    const srcBytes = numberSizeInBytes.get(srcType.identifierText) ?? sizeof_int32;
+    const destBytes = numberSizeInBytes.get(destType.identifierText) ?? sizeof_int32;
+
+    if (srcType.isIntegerType() === false) {
+        if (destType.isIntegerType()) return ImplicitConversionKind.FractionalPart;
+        return srcBytes > destBytes ? ImplicitConversionKind.Narrowing : undefined; // e.g., double to float
+    }
+
+    if (destType.isIntegerType() === false) return undefined;
+
+    if (srcBytes > destBytes) return ImplicitConversionKind.Narrowing;
+
+    const isSignedSource = srcType.identifierToken.isReservedToken() && srcType.identifierToken.property.isSignedInteger;
+    const isSignedDestination = destType.identifierToken.isReservedToken() && destType.identifierToken.property.isSignedInteger;
+    return isSignedSource !== isSignedDestination ? ImplicitConversionKind.SignChange : undefined;
+}
+
+function isEnabledKind(kind: ImplicitConversionKind): boolean {
+    const settings = getGlobalSettings().implicitConversion;
+    switch (kind) {
+    case ImplicitConversionKind.Narrowing:
+        return settings.narrowing;
+    case ImplicitConversionKind.FractionalPart:
+        return settings.fractionalPart;
+    case ImplicitConversionKind.SignChange:
+        return settings.signChange;
+    }
+}
+
+function stringifyImplicitConversion(kind: ImplicitConversionKind, srcType: SymbolType, destType: SymbolType): string {
+    const conversion = `Implicit conversion from '${srcType.identifierText}' to '${destType.identifierText}'`;
+    switch (kind) {
+    case ImplicitConversionKind.Narrowing:
+        return `${conversion} may lose data.`;
+    case ImplicitConversionKind.FractionalPart:
+        return `${conversion} loses the fractional part.`;
+    case ImplicitConversionKind.SignChange:
+        return `${conversion} may change the sign of the value.`;
+    }
+}
+
+const literalOperatorSet = new Set(['+', '-', '*', '/', '%', '~', '<<', '>>', '>>>', '&', '|', '^', '(', ')']);
+
+// e.g., '-(1 + 2)'
+function isLiteralRange(nodeRange: TokenRange): boolean {
+    for (let token: TokenObject | undefined = nodeRange.start; ; token = token.next) {
+        if (token === undefined) return false;
+
+        const isLiteral = token.isNumberToken() || (token.isReservedToken() && literalOperatorSet.has(token.text));
+        if (isLiteral === false) return false;
+
+        if (token === nodeRange.end) return true;
+    }
 }
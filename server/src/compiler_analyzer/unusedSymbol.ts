@@ -0,0 +1,175 @@
+import {getActiveGlobalScope, SymbolGlobalScope, SymbolScope} from "./symbolScope";
+import {SymbolFunction, SymbolVariable} from "./symbolObject";
+import {isFuncHeadReturnValue, NodeName, NodeStatBlock, NodeVar} from "../compiler_parser/nodes";
+import {isFunctionDeclarationOnly} from "../compiler_parser/nodesUtils";
+import {TokenObject} from "../compiler_tokenizer/tokenObject";
+import {TextLocation} from "../compiler_tokenizer/textLocation";
+import {getGlobalSettings} from "../core/settings";
+import {analyzerDiagnostic} from "./analyzerDiagnostic";
+
+enum UnusedSymbolKind {
+    LocalVariable = 'LocalVariable',
+    Parameter = 'Parameter',
+    PrivateMember = 'PrivateMember',
+    Function = 'Function',
+}
+
+/**
+ * Reports the symbols declared in the file that are never referenced.
+ * Symbols whose names start with '_' are regarded as intentionally unused.
+ */
+export function checkUnusedSymbols(globalScope: SymbolGlobalScope) {
+    const filepath = globalScope.getContext().filepath;
+    if (filepath.endsWith('as.predefined')) return;
+
+    // The members of a mixin class are included in each class, so the symbols are identified by their declarations.
+    const referencedTokens = new Set<TokenObject>(
+        globalScope.info.reference.map(reference => reference.toSymbol.identifierToken));
+    checkUnusedSymbolsInScope(globalScope, filepath, referencedTokens, new Set());
+}
+
+// -----------------------------------------------
+
+function checkUnusedSymbolsInScope(
+    scope: SymbolScope, filepath: string, referencedTokens: Set<TokenObject>, reportedTokens: Set<TokenObject>
+) {
+    for (const symbolHolder of scope.symbolTable.values()) {
+        for (const symbol of symbolHolder.toList()) {
+            const identifierToken = symbol.identifierToken;
+            if (symbol.isType() || referencedTokens.has(identifierToken) || reportedTokens.has(identifierToken)) continue;
+
+            if (identifierToken.isVirtual() || identifierToken.location.path !== filepath) continue;
+            if (identifierToken.text.startsWith('_')) continue;
+
+            const kind = symbol.isVariable() ? classifyVariable(scope, symbol) : classifyFunction(symbol);
+            if (kind === undefined || isEnabledKind(kind) === false) continue;
+
+            reportedTokens.add(identifierToken);
+            reportUnusedSymbol(identifierToken, kind, findRemovalLocation(scope, symbol, kind));
+        }
+    }
+
+    for (const childScope of scope.childScopeTable.values()) {
+        checkUnusedSymbolsInScope(childScope, filepath, referencedTokens, reportedTokens);
+    }
+}
+
+function classifyVariable(scope: SymbolScope, variable: SymbolVariable): UnusedSymbolKind | undefined {
+    const linkedNode = scope.linkedNode;
+    if (linkedNode?.nodeName === NodeName.Class) {
+        return variable.accessRestriction !== undefined ? UnusedSymbolKind.PrivateMember : undefined;
+    }
+
+    if (linkedNode?.nodeName === NodeName.Func) {
+        // Parameters of a function without a body cannot be used.
+        if (linkedNode.paramList.some(param => param.identifier === variable.identifierToken)) {
+            return isFunctionDeclarationOnly(linkedNode) ? undefined : UnusedSymbolKind.Parameter;
+        }
+    } else if (linkedNode?.nodeName === NodeName.Lambda) {
+        if (linkedNode.paramList.some(param => param.identifier === variable.identifierToken)) {
+            return UnusedSymbolKind.Parameter;
+        }
+    }
+
+    const functionScope = scope.takeParentByNode([NodeName.Func, NodeName.VirtualProp, NodeName.Lambda]);
+    return functionScope !== undefined ? UnusedSymbolKind.LocalVariable : undefined;
+}
+
+function classifyFunction(func: SymbolFunction): UnusedSymbolKind | undefined {
+    const linkedNode = func.linkedNode;
+    if (linkedNode.nodeName !== NodeName.Func && linkedNode.nodeName !== NodeName.Import) return undefined;
+
+    if (linkedNode.nodeName === NodeName.Func) {
+        // Constructors and operator overloads are called implicitly, and property accessors are referenced by the property.
+        if (isFuncHeadReturnValue(linkedNode.head) === false) return undefined;
+        if (/^op[A-Z]/.test(func.identifierText) || /^(get|set)_/.test(func.identifierText)) return undefined;
+    }
+
+    if (func.isInstanceMember) {
+        return func.accessRestriction !== undefined ? UnusedSymbolKind.PrivateMember : undefined;
+    }
+
+    return UnusedSymbolKind.Function;
+}
+
+function isEnabledKind(kind: UnusedSymbolKind): boolean {
+    const settings = getGlobalSettings().unusedSymbols;
+    switch (kind) {
+    case UnusedSymbolKind.LocalVariable:
+        return settings.localVariables;
+    case UnusedSymbolKind.Parameter:
+        return settings.parameters;
+    case UnusedSymbolKind.PrivateMember:
+        return settings.privateMembers;
+    case UnusedSymbolKind.Function:
+        return settings.functions;
+    }
+}
+
+function reportUnusedSymbol(identifierToken: TokenObject, kind: UnusedSymbolKind, removalLocation: TextLocation | undefined) {
+    const message = kind === UnusedSymbolKind.Parameter
+        ? `Parameter '${identifierToken.text}' is never used.`
+        : `'${identifierToken.text}' is declared but never used.`;
+    analyzerDiagnostic.unnecessary(identifierToken.location, message);
+
+    getActiveGlobalScope().info.unusedSymbol.push({
+        identifierToken: identifierToken,
+        isParameter: kind === UnusedSymbolKind.Parameter,
+        removalLocation: removalLocation
+    });
+}
+
+/**
+ * Returns the location of the declaration to be removed by the quick fix.
+ */
+function findRemovalLocation(scope: SymbolScope, symbol: SymbolVariable | SymbolFunction, kind: UnusedSymbolKind): TextLocation | undefined {
+    if (symbol.isFunction()) return symbol.linkedNode.nodeRange.getBoundingLocation();
+
+    if (kind === UnusedSymbolKind.Parameter) {
+        // The parameter can be unnamed, e.g., 'int' in 'void fn(int)', but the type of the lambda parameter may be omitted.
+        if (scope.linkedNode?.nodeName !== NodeName.Func) return undefined;
+
+        // Remove the name with the preceding spaces, e.g., ' b' in 'int b'
+        const location = symbol.identifierToken.location;
+        const prevToken = symbol.identifierToken.prev;
+        return prevToken !== undefined ? new TextLocation(location.path, prevToken.location.end, location.end) : location;
+    }
+
+    // Only a declaration of a single variable can be removed, e.g., 'int x = 1;'
+    const nodeVar = collectVarDeclarations(scope).find(
+        nodeVar => nodeVar.variables.some(declared => declared.identifier === symbol.identifierToken));
+    if (nodeVar === undefined || nodeVar.variables.length !== 1) return undefined;
+
+    return nodeVar.nodeRange.getBoundingLocation();
+}
+
+function collectVarDeclarations(scope: SymbolScope): NodeVar[] {
+    const linkedNode = scope.linkedNode;
+    if (linkedNode === undefined) return [];
+
+    const statBlocks: (NodeStatBlock | undefined)[] = [];
+    switch (linkedNode.nodeName) {
+    case NodeName.Class:
+        return linkedNode.memberList.filter((member): member is NodeVar => member.nodeName === NodeName.Var);
+    case NodeName.For:
+        return linkedNode.initial.nodeName === NodeName.Var ? [linkedNode.initial] : [];
+    case NodeName.Func:
+    case NodeName.Lambda:
+        statBlocks.push(linkedNode.statBlock);
+        break;
+    case NodeName.VirtualProp:
+        statBlocks.push(scope.key.startsWith('get_') ? linkedNode.getter?.statBlock : linkedNode.setter?.statBlock);
+        break;
+    case NodeName.StatBlock:
+        statBlocks.push(linkedNode);
+        break;
+    case NodeName.Try:
+        statBlocks.push(linkedNode.tryBlock, linkedNode.catchBlock);
+        break;
+    default:
+        break;
+    }
+
+    return statBlocks.flatMap(statBlock => statBlock?.statementList ?? [])
+        .filter((statement): statement is NodeVar => statement.nodeName === NodeName.Var);
+}
@@ -121,6 +121,22 @@ export type NodeScriptMember =
     | NodeFunc
     | NodeNamespace;
 
+/**
+ * The metadata declared in a pair of '[' and ']' before the declaration. e.g., '[Range(min = 0, max = 10)]'
+ * Its meaning is defined by the application, so the tokens are kept as they are.
+ */
+export interface ParsedMetadata {
+    readonly tokens: TokenObject[]; // The tokens between '[' and ']'
+    readonly name: TokenObject | undefined; // e.g., 'Range' in '[Range(min = 0, max = 10)]'
+    // The arguments in the parentheses after the name. This is undefined if there are no parentheses.
+    readonly argumentList: ParsedMetadataArgument[] | undefined;
+}
+
+export interface ParsedMetadataArgument {
+    readonly name: TokenObject | undefined; // e.g., 'min' in 'min = 0'
+    readonly valueTokens: TokenObject[]; // e.g., '0' in 'min = 0'
+}
+
 // BNF: NAMESPACE     ::= 'namespace' IDENTIFIER {'::' IDENTIFIER} '{' SCRIPT '}'
 export interface NodeNamespace extends NodeBase {
     readonly nodeName: NodeName.Namespace
@@ -132,6 +148,7 @@ export interface NodeNamespace extends NodeBase {
 export interface NodeEnum extends NodeBase {
     readonly nodeName: NodeName.Enum;
     readonly scopeRange: TokenRange;
+    readonly metadata: ParsedMetadata[];
     readonly entity: EntityAttribute | undefined;
     readonly identifier: TokenObject;
     readonly memberList: ParsedEnumMember[];
@@ -147,7 +164,7 @@ export interface ParsedEnumMember {
 export interface NodeClass extends NodeBase {
     readonly nodeName: NodeName.Class;
     readonly scopeRange: TokenRange;
-    readonly metadata: TokenObject[][];
+    readonly metadata: ParsedMetadata[];
     readonly entity: EntityAttribute | undefined;
     readonly identifier: TokenObject;
     readonly typeTemplates: NodeType[] | undefined;
@@ -165,6 +182,7 @@ export interface NodeTypeDef extends NodeBase {
 // BNF: FUNC          ::= {'shared' | 'external'} ['private' | 'protected'] [((TYPE ['&']) | '~')] IDENTIFIER PARAMLIST ['const'] FUNCATTR (';' | STATBLOCK)
 export interface NodeFunc extends NodeBase {
     readonly nodeName: NodeName.Func;
+    readonly metadata: ParsedMetadata[];
     readonly entity: EntityAttribute | undefined;
     readonly accessor: AccessModifier | undefined;
     readonly head: FuncHead;
@@ -205,6 +223,7 @@ export function isFuncHeadReturnValue(head: FuncHead): head is FuncHeadReturnVal
 // BNF: INTERFACE     ::= {'external' | 'shared'} 'interface' IDENTIFIER (';' | ([':' IDENTIFIER {',' IDENTIFIER}] '{' {VIRTPROP | INTFMTHD} '}'))
 export interface NodeInterface extends NodeBase {
     readonly nodeName: NodeName.Interface;
+    readonly metadata: ParsedMetadata[];
     readonly entity: EntityAttribute | undefined;
     readonly identifier: TokenObject;
     readonly baseList: TokenObject[];
@@ -214,6 +233,7 @@ export interface NodeInterface extends NodeBase {
 // BNF: VAR           ::= ['private' | 'protected'] TYPE IDENTIFIER [( '=' (INITLIST | ASSIGN)) | ARGLIST] {',' IDENTIFIER [( '=' (INITLIST | ASSIGN)) | ARGLIST]} ';'
 export interface NodeVar extends NodeBase {
     readonly nodeName: NodeName.Var
+    readonly metadata: ParsedMetadata[],
     readonly accessor: AccessModifier | undefined,
     readonly type: NodeType,
     readonly variables: ParsedVariableInit[];
@@ -238,6 +258,7 @@ export interface NodeImport extends NodeBase {
 // BNF: FUNCDEF       ::= {'external' | 'shared'} 'funcdef' TYPE ['&'] IDENTIFIER PARAMLIST ';'
 export interface NodeFuncDef extends NodeBase {
     readonly nodeName: NodeName.FuncDef;
+    readonly metadata: ParsedMetadata[];
     readonly entity: EntityAttribute | undefined;
     readonly returnType: NodeType;
     readonly isRef: boolean;
@@ -248,6 +269,7 @@ export interface NodeFuncDef extends NodeBase {
 // BNF: VIRTPROP      ::= ['private' | 'protected'] TYPE ['&'] IDENTIFIER '{' {('get' | 'set') ['const'] FUNCATTR (STATBLOCK | ';')} '}'
 export interface NodeVirtualProp extends NodeBase {
     readonly nodeName: NodeName.VirtualProp
+    readonly metadata: ParsedMetadata[],
     readonly accessor: AccessModifier | undefined,
     readonly type: NodeType,
     readonly isRef: boolean,
@@ -271,6 +293,7 @@ export interface NodeMixin extends NodeBase {
 // BNF: INTFMTHD      ::= TYPE ['&'] IDENTIFIER PARAMLIST ['const'] ';'
 export interface NodeIntfMethod extends NodeBase {
     readonly nodeName: NodeName.IntfMethod;
+    readonly metadata: ParsedMetadata[];
     readonly returnType: NodeType;
     readonly isRef: boolean;
     readonly identifier: TokenObject;
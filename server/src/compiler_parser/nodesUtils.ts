@@ -1,5 +1,17 @@
 import {TokenObject} from "../compiler_tokenizer/tokenObject";
-import {EntityAttribute, NodeType, ReferenceModifier} from "./nodes";
+import assert = require("node:assert");
+import {
+    EntityAttribute,
+    isMemberMethodInPostOp,
+    NodeAssign,
+    NodeCondition,
+    NodeFunc,
+    NodeLambda,
+    NodeName,
+    NodeType,
+    ParsedMetadata,
+    ReferenceModifier
+} from "./nodes";
 
 export function isEntityModifierForClass(modifier: EntityAttribute) {
     return modifier.isAbstract || modifier.isFinal;
@@ -23,6 +35,117 @@ export function stringifyNodeType(type: NodeType): string {
     return str;
 }
 
+/**
+ * Returns the metadata as written in the code, where the tokens are separated by a space only if they are in the code.
+ * e.g., '[Range(min = 0, max = 10)]'
+ */
+export function stringifyMetadata(metadata: ParsedMetadata): string {
+    let text = '';
+    for (let i = 0; i < metadata.tokens.length; i++) {
+        const token = metadata.tokens[i];
+        if (i > 0 && metadata.tokens[i - 1].location.end.equals(token.location.start) === false) text += ' ';
+        text += token.text;
+    }
+
+    return `[${text}]`;
+}
+
 export function getIdentifierInNodeType(type: NodeType): TokenObject {
     return type.dataType.identifier;
-}
\ No newline at end of file
+}
+
+/**
+ * Returns the lambda expression if the condition consists of it alone, e.g., `function(a, b) { ... }`.
+ */
+export function getLambdaInCondition(condition: NodeCondition): NodeLambda | undefined {
+    if (condition.ternary !== undefined || condition.expr.tail !== undefined) return undefined;
+
+    const head = condition.expr.head;
+    if (head.exprTerm !== 2 || head.preOps.length > 0 || head.postOps.length > 0) return undefined;
+
+    return head.value.nodeName === NodeName.Lambda ? head.value : undefined;
+}
+
+/**
+ * Returns true if the condition is a handle of an expression, e.g., `@obj`.
+ */
+export function isHandleExpr(condition: NodeCondition): boolean {
+    if (condition.ternary !== undefined || condition.expr.tail !== undefined) return false;
+
+    const head = condition.expr.head;
+    return head.exprTerm === 2 && head.preOps.at(0)?.text === '@';
+}
+
+/**
+ * Returns true if the function is declared without a body, e.g., `int fn();` in 'as.predefined'.
+ */
+export function isFunctionDeclarationOnly(func: NodeFunc): boolean {
+    return func.nodeRange.end.text === ';';
+}
+
+/**
+ * Returns the identifier of the function whose result is the value of the expression, e.g., 'fn' in `obj.fn()`.
+ */
+export function getTrailingFuncCallIdentifier(assign: NodeAssign): TokenObject | undefined {
+    if (assign.tail !== undefined || assign.condition.ternary !== undefined || assign.condition.expr.tail !== undefined) {
+        return undefined;
+    }
+
+    const head = assign.condition.expr.head;
+    if (head.exprTerm !== 2 || head.preOps.length > 0) return undefined;
+
+    const lastPostOp = head.postOps.at(-1);
+    if (lastPostOp === undefined) {
+        return head.value.nodeName === NodeName.FuncCall ? head.value.identifier : undefined;
+    }
+
+    return lastPostOp.postOp === 1 && isMemberMethodInPostOp(lastPostOp.member) ? lastPostOp.member.identifier : undefined;
+}
+
+/**
+ * Returns the precedence of the binary operator. The higher value binds more tightly.
+ */
+export function getOperatorPrecedence(operator: TokenObject): number {
+    const op = operator.text;
+    switch (op) {
+    case '**':
+        return 0;
+    case '*':
+    case '/':
+    case '%':
+        return -1;
+    case '+':
+    case '-':
+        return -2;
+    case '<<':
+    case '>>':
+    case '>>>':
+        return -3;
+    case '&':
+        return -4;
+    case '^':
+        return -5;
+    case '|':
+        return -6;
+    case '<':
+    case '>':
+    case '<=':
+    case '>=':
+        return -7;
+    case '==':
+    case '!=':
+    case 'xor':
+    case '^^':
+    case 'is':
+    case '!is':
+        return -8;
+    case 'and':
+    case '&&':
+        return -9;
+    case 'or':
+    case '||':
+        return -10;
+    default:
+        assert(false);
+    }
+}
@@ -66,6 +66,8 @@ import {
     ParsedArgument,
     ParsedEnumMember,
     ParsedGetterSetter,
+    ParsedMetadata,
+    ParsedMetadataArgument,
     ParsedPostIndexing,
     ParsedVariableInit,
     ReferenceModifier,
@@ -157,7 +159,6 @@ function parseScript(parser: ParserState): NodeScript {
             continue;
         }
 
-        parseMetadata(parser);
         const parsedVar = parseVar(parser);
         if (parsedVar !== undefined) {
             script.push(parsedVar);
@@ -232,6 +233,8 @@ function expectContextualKeyword(parser: ParserState, keyword: string): boolean
 function parseEnum(parser: ParserState): ParseResult<NodeEnum> {
     const rangeStart = parser.next();
 
+    const metadata = parseMetadata(parser);
+
     const entity = parseEntityAttribute(parser);
 
     if (parser.next().text !== 'enum') {
@@ -269,6 +272,7 @@ function parseEnum(parser: ParserState): ParseResult<NodeEnum> {
         nodeName: NodeName.Enum,
         nodeRange: new TokenRange(rangeStart, parser.prev()),
         scopeRange: new TokenRange(scopeStart, parser.prev()),
+        metadata: metadata,
         entity: entity,
         identifier: identifier,
         memberList: memberList,
@@ -501,10 +505,11 @@ function parseListEntry(parser: ParserState, operators: NodeListValidOperators[]
                 });
             }
         } else if (parser.next().text === 'repeat' || parser.next().text === 'repeat_same') {
+            const operator = parser.next().text === 'repeat' ? NodeListOp.Repeat : NodeListOp.RepeatSame;
             parser.commit(HighlightForToken.Keyword);
 
             operators.push({
-                operator: parser.next().text === 'repeat' ? NodeListOp.Repeat : NodeListOp.RepeatSame
+                operator: operator
             });
         } else if (parser.next().text === ',') {
             parser.commit(HighlightForToken.Operator);
@@ -559,13 +564,19 @@ function parseListPattern(parser: ParserState): NodeListPattern | undefined {
     }
 
     parser.commit(HighlightForToken.Operator);
+
+    return {
+        nodeName: NodeName.ListPattern,
+        nodeRange: new TokenRange(rangeStart, parser.prev()),
+        operators: listOperations
+    };
 }
 
 // BNF: FUNC          ::= {'shared' | 'external'} ['private' | 'protected'] [((TYPE ['&']) | '~')] IDENTIFIER [PARAMLIST | LISTEXPR] ['const'] FUNCATTR (';' | STATBLOCK)
 function parseFunc(parser: ParserState): NodeFunc | undefined {
     const rangeStart = parser.next();
 
-    parseMetadata(parser);
+    const metadata = parseMetadata(parser);
 
     const entityAttribute = parseEntityAttribute(parser);
 
@@ -611,8 +622,8 @@ function parseFunc(parser: ParserState): NodeFunc | undefined {
         funcAttr = parseFuncAttr(parser);
 
         if (parser.next().text === ';') {
-            // Function declaration is allowed only in 'as.predefined'
-            if (parser.isPredefinedFile === false) {
+            // Function declaration is allowed only in 'as.predefined', except for the deleted function, e.g., 'void fn() delete;'
+            if (parser.isPredefinedFile === false && funcAttr?.isDeleted !== true) {
                 // This node can be a variable calling a constructor, not a function declaration.
                 parser.backtrack(rangeStart);
                 return undefined;
@@ -640,6 +651,7 @@ function parseFunc(parser: ParserState): NodeFunc | undefined {
     return {
         nodeName: NodeName.Func,
         nodeRange: new TokenRange(rangeStart, parser.prev()),
+        metadata: metadata,
         entity: entityAttribute,
         accessor: accessor,
         head: head,
@@ -667,7 +679,7 @@ function parseRef(parser: ParserState) {
 
 // Metadata declarations in the same place and the only other rule is the matching count of '[' and ']'
 // e.g., '[Hello[]]' is ok but '[Hello[]' is not.
-function parseMetadata(parser: ParserState): TokenObject[][] {
+function parseMetadata(parser: ParserState): ParsedMetadata[] {
     const rangeStart = parser.next();
     if (parser.next().text !== '[') return [];
 
@@ -694,7 +706,7 @@ function parseMetadata(parser: ParserState): TokenObject[][] {
                     continue;
                 }
 
-                return metadata;
+                return metadata.map(createParsedMetadata);
             } else metadata.at(-1)!.push(parser.next());
         } else {
             metadata.at(-1)!.push(parser.next());
@@ -707,6 +719,41 @@ function parseMetadata(parser: ParserState): TokenObject[][] {
     return [];
 }
 
+// e.g., 'Editable', 'Range(min = 0, max = 10)'
+function createParsedMetadata(tokens: TokenObject[]): ParsedMetadata {
+    const name = tokens[0]?.kind === TokenKind.Identifier ? tokens[0] : undefined;
+
+    const hasArguments = name !== undefined && tokens[1]?.text === '(' && tokens.at(-1)?.text === ')';
+    if (hasArguments === false) return {tokens: tokens, name: name, argumentList: undefined};
+
+    // Split the tokens in the parentheses by the commas that are not nested.
+    const argumentTokensList: TokenObject[][] = [];
+    let level = 0;
+    for (const token of tokens.slice(2, -1)) {
+        if (level === 0 && token.text === ',') {
+            argumentTokensList.push([]);
+            continue;
+        }
+
+        if (/^[([{]$/.test(token.text)) level++;
+        else if (/^[)\]}]$/.test(token.text)) level--;
+
+        if (argumentTokensList.length === 0) argumentTokensList.push([]);
+        argumentTokensList.at(-1)!.push(token);
+    }
+
+    const argumentList = argumentTokensList.map((argumentTokens): ParsedMetadataArgument => {
+        // e.g., 'min = 0'
+        if (argumentTokens[0]?.kind === TokenKind.Identifier && argumentTokens[1]?.text === '=') {
+            return {name: argumentTokens[0], valueTokens: argumentTokens.slice(2)};
+        }
+
+        return {name: undefined, valueTokens: argumentTokens};
+    });
+
+    return {tokens: tokens, name: name, argumentList: argumentList};
+}
+
 // ['private' | 'protected']
 function parseAccessModifier(parser: ParserState): AccessModifier | undefined {
     const next = parser.next().text;
@@ -721,6 +768,8 @@ function parseAccessModifier(parser: ParserState): AccessModifier | undefined {
 function parseInterface(parser: ParserState): ParseResult<NodeInterface> {
     const rangeStart = parser.next();
 
+    const metadata = parseMetadata(parser);
+
     const entity = parseEntityAttribute(parser);
 
     if (parser.next().text !== 'interface') {
@@ -735,6 +784,7 @@ function parseInterface(parser: ParserState): ParseResult<NodeInterface> {
     const result: Mutable<NodeInterface> = {
         nodeName: NodeName.Interface,
         nodeRange: new TokenRange(rangeStart, parser.prev()),
+        metadata: metadata,
         entity: entity,
         identifier: identifier,
         baseList: [],
@@ -781,7 +831,7 @@ function expectInterfaceMembers(parser: ParserState): (NodeIntfMethod | NodeVirt
             continue;
         }
 
-        const virtualProp = parseVirtualProp(parser);
+        const virtualProp = parseVirtualProp(parser, true);
         if (virtualProp !== undefined) {
             members.push(virtualProp);
             continue;
@@ -797,7 +847,7 @@ function expectInterfaceMembers(parser: ParserState): (NodeIntfMethod | NodeVirt
 function parseVar(parser: ParserState): NodeVar | undefined {
     const rangeStart = parser.next();
 
-    parseMetadata(parser);
+    const metadata = parseMetadata(parser);
 
     const accessor = parseAccessModifier(parser);
 
@@ -833,6 +883,7 @@ function parseVar(parser: ParserState): NodeVar | undefined {
     return {
         nodeName: NodeName.Var,
         nodeRange: new TokenRange(rangeStart, parser.prev()),
+        metadata: metadata,
         accessor: accessor,
         type: type,
         variables: variables
@@ -900,6 +951,8 @@ function parseImport(parser: ParserState): ParseResult<NodeImport> {
 function parseFuncDef(parser: ParserState): ParseResult<NodeFuncDef> {
     const rangeStart = parser.next();
 
+    const metadata = parseMetadata(parser);
+
     const entity = parseEntityAttribute(parser);
 
     if (parser.next().text !== 'funcdef') {
@@ -925,6 +978,7 @@ function parseFuncDef(parser: ParserState): ParseResult<NodeFuncDef> {
     return {
         nodeName: NodeName.FuncDef,
         nodeRange: new TokenRange(rangeStart, parser.prev()),
+        metadata: metadata,
         entity: entity,
         returnType: returnType,
         isRef: isRef,
@@ -934,10 +988,10 @@ function parseFuncDef(parser: ParserState): ParseResult<NodeFuncDef> {
 }
 
 // BNF: VIRTPROP      ::= ['private' | 'protected'] TYPE ['&'] IDENTIFIER '{' {('get' | 'set') ['const'] FUNCATTR (STATBLOCK | ';')} '}'
-function parseVirtualProp(parser: ParserState): NodeVirtualProp | undefined {
+function parseVirtualProp(parser: ParserState, isInterfaceMember: boolean = false): NodeVirtualProp | undefined {
     const rangeStart = parser.next();
 
-    parseMetadata(parser);
+    const metadata = parseMetadata(parser);
 
     const accessor = parseAccessModifier(parser);
 
@@ -967,8 +1021,8 @@ function parseVirtualProp(parser: ParserState): NodeVirtualProp | undefined {
         const next = parser.next().text;
 
         if (parseCloseOperator(parser, '}') === BreakOrThrough.Break) break;
-        else if (next === 'get') getter = expectGetterSetter(parser);
-        else if (next === 'set') setter = expectGetterSetter(parser);
+        else if (next === 'get') getter = expectGetterSetter(parser, isInterfaceMember);
+        else if (next === 'set') setter = expectGetterSetter(parser, isInterfaceMember);
         else {
             parser.error("Expected getter or setter.");
             parser.step();
@@ -978,6 +1032,7 @@ function parseVirtualProp(parser: ParserState): NodeVirtualProp | undefined {
     return {
         nodeName: NodeName.VirtualProp,
         nodeRange: new TokenRange(rangeStart, parser.prev()),
+        metadata: metadata,
         accessor: accessor,
         type: type,
         isRef: isRef,
@@ -988,12 +1043,23 @@ function parseVirtualProp(parser: ParserState): NodeVirtualProp | undefined {
 }
 
 // ('get' | 'set') ['const'] FUNCATTR (STATBLOCK | ';')
-function expectGetterSetter(parser: ParserState): ParsedGetterSetter {
+function expectGetterSetter(parser: ParserState, isInterfaceMember: boolean): ParsedGetterSetter {
     parser.commit(HighlightForToken.Builtin);
 
     const isConst = parseConst(parser);
     const funcAttr = parseFuncAttr(parser);
-    const statBlock = expectStatBlock(parser);
+
+    // The accessors without a body are declared in interfaces or 'as.predefined', e.g., 'int value { get; }'
+    let statBlock: NodeStatBlock | undefined = undefined;
+    if (parser.next().text === ';') {
+        if (isInterfaceMember === false && parser.isPredefinedFile === false) {
+            parser.error("Expected a body for the accessor.");
+        }
+
+        parser.commit(HighlightForToken.Operator);
+    } else {
+        statBlock = expectStatBlock(parser);
+    }
 
     return {
         isConst: isConst,
@@ -1026,6 +1092,8 @@ function parseMixin(parser: ParserState): ParseResult<NodeMixin> {
 function parseIntfMethod(parser: ParserState): NodeIntfMethod | undefined {
     const rangeStart = parser.next();
 
+    const metadata = parseMetadata(parser);
+
     const returnType = expectType(parser);
     if (returnType === undefined) return undefined;
 
@@ -1035,7 +1103,11 @@ function parseIntfMethod(parser: ParserState): NodeIntfMethod | undefined {
     if (identifier === undefined) return undefined;
 
     const paramList = parseParamList(parser);
-    if (paramList === undefined) return undefined;
+    if (paramList === undefined) {
+        // It may be a virtual property, e.g., 'int value { get; }'
+        parser.backtrack(rangeStart);
+        return undefined;
+    }
 
     const isConst = parseConst(parser);
 
@@ -1044,6 +1116,7 @@ function parseIntfMethod(parser: ParserState): NodeIntfMethod | undefined {
     return {
         nodeName: NodeName.IntfMethod,
         nodeRange: new TokenRange(rangeStart, parser.prev()),
+        metadata: metadata,
         returnType: returnType,
         isRef: isRef,
         identifier: identifier,
@@ -1362,18 +1435,19 @@ function parseInitList(parser: ParserState): NodeInitList | undefined {
     while (parser.isEnd() === false) {
         if (expectSeparatorOrClose(parser, ',', '}', initList.length > 0, true) === BreakOrThrough.Break) break;
 
-        const assign = parseAssign(parser);
-        if (assign !== undefined) {
-            initList.push(assign);
-            continue;
-        }
-
+        // A nested list is parsed before an assignment, or it would be parsed as an expression term 'INITLIST'.
         const parsedInits = parseInitList(parser);
         if (parsedInits !== undefined) {
             initList.push(parsedInits);
             continue;
         }
 
+        const assign = parseAssign(parser);
+        if (assign !== undefined) {
+            initList.push(assign);
+            continue;
+        }
+
         parser.error("Expected assignment or initializer list.");
         parser.step();
     }
@@ -1511,9 +1585,7 @@ function setFunctionAttribute(attribute: Mutable<FunctionAttribute>, token: 'ove
     else if (token === 'final') attribute.isFinal = true;
     else if (token === 'explicit') attribute.isExplicit = true;
     else if (token === 'property') attribute.isProperty = true;
-    // TODO: implement in analyzer
     else if (token === 'delete') attribute.isDeleted = true;
-    // TODO: implement in analyzer
     else if (token === 'nodiscard') attribute.isNoDiscard = true;
 }
 
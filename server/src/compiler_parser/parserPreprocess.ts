@@ -2,6 +2,7 @@ import {TokenKind, TokenObject, TokenString} from "../compiler_tokenizer/tokenOb
 import {diagnostic} from "../core/diagnostic";
 import {HighlightForToken} from "../core/highlight";
 import {TokenRange} from "../compiler_tokenizer/tokenRange";
+import {getGlobalSettings} from "../core/settings";
 
 /**
  * Output of the 'preprocessAfterTokenized' function.
@@ -46,31 +47,97 @@ export function preprocessAfterTokenized(tokens: TokenObject[]): PreprocessedOut
     };
 }
 
+/**
+ * A block of the conditional directives. e.g., '#if A ... #elif B ... #else ... #endif'
+ */
+interface ConditionalBlock {
+    readonly openingToken: TokenObject; // e.g., 'if' in '#if A'
+    readonly isParentActive: boolean;
+    isActive: boolean; // Whether the current branch is active
+    hasActivated: boolean; // Whether any branch so far has been active
+    hasElse: boolean;
+}
+
+interface DirectiveContext {
+    readonly includeFiles: TokenString[];
+    readonly definedSymbols: Set<string>;
+    readonly conditionalStack: ConditionalBlock[];
+}
+
 function preprocessDirectives(tokens: TokenObject[]): TokenString[] {
-    const includeFiles: TokenString[] = [];
-    const directiveRanges: [number, number][] = [];
+    const context: DirectiveContext = {
+        includeFiles: [],
+        definedSymbols: new Set(getGlobalSettings().definedSymbols),
+        conditionalStack: [],
+    };
+
+    const activeTokens: TokenObject[] = [];
+    const inactiveTokens: TokenObject[] = [];
 
     // Handle preprocessor directives starting with '#'
-    for (let i = 0; i < tokens.length; i++) {
-        if (tokens[i].text !== '#') continue;
+    for (let i = 0; i < tokens.length;) {
+        if (tokens[i].text !== '#') {
+            if (isActiveRegion(context)) activeTokens.push(tokens[i]);
+            else inactiveTokens.push(tokens[i]);
+
+            i++;
+            continue;
+        }
+
         const directiveTokens = sliceTokenListBySameLine(tokens, i);
+        i += directiveTokens.length;
+
+        const wasActive = isActiveRegion(context);
+        handleDirectiveTokens(directiveTokens, context);
 
-        handleDirectiveTokens(directiveTokens, includeFiles);
-        directiveRanges.push([i, directiveTokens.length]);
+        if (wasActive === false && isActiveRegion(context) === false) {
+            // The nested directive in the inactive region is faded out together.
+            inactiveTokens.push(...directiveTokens);
+        } else {
+            reportInactiveTokens(inactiveTokens);
+        }
     }
 
-    // Remove preprocessor directives.
-    for (let i = directiveRanges.length - 1; i >= 0; i--) {
-        tokens.splice(directiveRanges[i][0], directiveRanges[i][1]);
+    reportInactiveTokens(inactiveTokens);
+
+    for (const block of context.conditionalStack) {
+        diagnostic.error(block.openingToken.location, `Missing '#endif' for '#${block.openingToken.text}'.`);
     }
 
-    return includeFiles;
+    // Remove preprocessor directives and inactive regions.
+    tokens.length = 0;
+    for (const token of activeTokens) tokens.push(token);
+
+    return context.includeFiles;
+}
+
+function isActiveRegion(context: DirectiveContext): boolean {
+    return context.conditionalStack.at(-1)?.isActive ?? true;
+}
+
+function reportInactiveTokens(inactiveTokens: TokenObject[]) {
+    if (inactiveTokens.length === 0) return;
+
+    const location = inactiveTokens[0].location.withEnd(inactiveTokens[inactiveTokens.length - 1].location.end);
+    diagnostic.unnecessary(location, 'This code is inactive due to the preprocessor conditions.');
+
+    inactiveTokens.length = 0;
 }
 
-function handleDirectiveTokens(directiveTokens: TokenObject[], includeFiles: TokenString[]) {
+function handleDirectiveTokens(directiveTokens: TokenObject[], context: DirectiveContext) {
     directiveTokens[0].setHighlight(HighlightForToken.Directive);
 
-    if (directiveTokens[1]?.text === 'include') {
+    const directiveName = directiveTokens[1]?.text;
+    if (directiveName !== undefined && conditionalDirectiveSet.has(directiveName)) {
+        directiveTokens[1].setHighlight(HighlightForToken.Directive);
+        handleConditionalDirective(directiveTokens, context);
+        return;
+    }
+
+    // Other directives in the inactive region are ignored.
+    if (isActiveRegion(context) === false) return;
+
+    if (directiveName === 'include') {
         directiveTokens[1].setHighlight(HighlightForToken.Directive);
 
         // Check the include directive.
@@ -85,12 +152,168 @@ function handleDirectiveTokens(directiveTokens: TokenObject[], includeFiles: Tok
             return;
         }
 
-        includeFiles.push(fileName);
+        context.includeFiles.push(fileName);
+    } else if (directiveName === 'define' || directiveName === 'undef') {
+        directiveTokens[1].setHighlight(HighlightForToken.Directive);
+
+        // e.g., '#define SERVER', '#undef SERVER'
+        const symbol = directiveTokens[2];
+        if (symbol === undefined || symbol.kind !== TokenKind.Identifier) {
+            diagnostic.error(directiveTokens[1].location, `Expected symbol name for ${directiveName} directive.`);
+            return;
+        }
+
+        symbol.setHighlight(HighlightForToken.Macro);
+        if (directiveName === 'define') context.definedSymbols.add(symbol.text);
+        else context.definedSymbols.delete(symbol.text);
     } else {
         if (directiveTokens[1] != null) directiveTokens[1].setHighlight(HighlightForToken.Label);
     }
 }
 
+const conditionalDirectiveSet = new Set(['if', 'ifdef', 'ifndef', 'elif', 'else', 'endif']);
+
+function handleConditionalDirective(directiveTokens: TokenObject[], context: DirectiveContext) {
+    const directive = directiveTokens[1];
+    const conditionTokens = directiveTokens.slice(2);
+    const stack = context.conditionalStack;
+
+    if (directive.text === 'if' || directive.text === 'ifdef' || directive.text === 'ifndef') {
+        const isParentActive = isActiveRegion(context);
+
+        // The conditions in the inactive region are not evaluated.
+        const isActive = isParentActive && evaluateDirectiveCondition(directive, conditionTokens, context);
+        stack.push({openingToken: directive, isParentActive, isActive, hasActivated: isActive, hasElse: false});
+        return;
+    }
+
+    const block = stack.at(-1);
+    if (block === undefined) {
+        diagnostic.error(directive.location, `'#${directive.text}' without a matching '#if'.`);
+        return;
+    }
+
+    if (directive.text === 'endif') {
+        stack.pop();
+        return;
+    }
+
+    if (block.hasElse) {
+        diagnostic.error(directive.location, `'#${directive.text}' after '#else'.`);
+    }
+
+    if (directive.text === 'elif') {
+        const canActivate = block.isParentActive && block.hasActivated === false;
+        block.isActive = canActivate && evaluateDirectiveCondition(directive, conditionTokens, context);
+    } else { // '#else'
+        block.isActive = block.isParentActive && block.hasActivated === false;
+        block.hasElse = true;
+    }
+
+    block.hasActivated = block.hasActivated || block.isActive;
+}
+
+function evaluateDirectiveCondition(directive: TokenObject, conditionTokens: TokenObject[], context: DirectiveContext): boolean {
+    if (directive.text === 'ifdef' || directive.text === 'ifndef') {
+        // e.g., '#ifdef SERVER'
+        const symbol = conditionTokens[0];
+        if (symbol === undefined || symbol.kind !== TokenKind.Identifier || conditionTokens.length > 1) {
+            diagnostic.error(directive.location, `Expected a symbol name for '#${directive.text}'.`);
+            return false;
+        }
+
+        symbol.setHighlight(HighlightForToken.Macro);
+        return context.definedSymbols.has(symbol.text) === (directive.text === 'ifdef');
+    }
+
+    const parser = {tokens: conditionTokens, cursor: 0, definedSymbols: context.definedSymbols};
+    const result = parseConditionOr(parser);
+    if (result === undefined || parser.cursor < conditionTokens.length) {
+        const location = conditionTokens.length > 0
+            ? conditionTokens[0].location.withEnd(conditionTokens[conditionTokens.length - 1].location.end)
+            : directive.location;
+        diagnostic.error(location, `Invalid condition for '#${directive.text}'.`);
+        return false;
+    }
+
+    return result;
+}
+
+interface ConditionParser {
+    readonly tokens: TokenObject[];
+    cursor: number;
+    readonly definedSymbols: Set<string>;
+}
+
+// e.g., 'A || B', 'A or B'
+function parseConditionOr(parser: ConditionParser): boolean | undefined {
+    let result = parseConditionAnd(parser);
+    while (result !== undefined && consumeConditionToken(parser, '||', 'or')) {
+        const rhs = parseConditionAnd(parser);
+        result = rhs === undefined ? undefined : result || rhs;
+    }
+
+    return result;
+}
+
+// e.g., 'A && B', 'A and B'
+function parseConditionAnd(parser: ConditionParser): boolean | undefined {
+    let result = parseConditionUnary(parser);
+    while (result !== undefined && consumeConditionToken(parser, '&&', 'and')) {
+        const rhs = parseConditionUnary(parser);
+        result = rhs === undefined ? undefined : result && rhs;
+    }
+
+    return result;
+}
+
+// e.g., '!A', 'not A', '(A || B)', 'defined(A)', 'A', '0'
+function parseConditionUnary(parser: ConditionParser): boolean | undefined {
+    if (consumeConditionToken(parser, '!', 'not')) {
+        const operand = parseConditionUnary(parser);
+        return operand === undefined ? undefined : operand === false;
+    }
+
+    if (consumeConditionToken(parser, '(')) {
+        const result = parseConditionOr(parser);
+        return consumeConditionToken(parser, ')') ? result : undefined;
+    }
+
+    const token = parser.tokens[parser.cursor];
+    if (token === undefined) return undefined;
+
+    parser.cursor++;
+    if (token.text === 'true' || token.text === 'false') return token.text === 'true';
+
+    if (token.isNumberToken()) return /^0+$/.test(token.text) === false;
+
+    if (token.kind !== TokenKind.Identifier) return undefined;
+
+    if (token.text === 'defined') {
+        // e.g., 'defined(A)', 'defined A'
+        const hasParen = consumeConditionToken(parser, '(');
+        const symbol = parser.tokens[parser.cursor];
+        if (symbol === undefined || symbol.kind !== TokenKind.Identifier) return undefined;
+
+        parser.cursor++;
+        if (hasParen && consumeConditionToken(parser, ')') === false) return undefined;
+
+        symbol.setHighlight(HighlightForToken.Macro);
+        return parser.definedSymbols.has(symbol.text);
+    }
+
+    token.setHighlight(HighlightForToken.Macro);
+    return parser.definedSymbols.has(token.text);
+}
+
+function consumeConditionToken(parser: ConditionParser, ...texts: string[]): boolean {
+    const token = parser.tokens[parser.cursor];
+    if (token === undefined || texts.includes(token.text) === false) return false;
+
+    parser.cursor++;
+    return true;
+}
+
 function sliceTokenListBySameLine(tokens: TokenObject[], head: number): TokenObject[] {
     let tail = head;
     for (let i = head; i < tokens.length - 1; i++) {
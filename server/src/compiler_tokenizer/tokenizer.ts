@@ -83,6 +83,46 @@ function tryNumber(tokenizer: TokenizerState, location: TextLocation): TokenNumb
         numberLiteral);
 }
 
+interface PrefixedNumberBase {
+    prefix: RegExp;
+    name: string;
+    isDigitChar: (c: string) => boolean;
+}
+
+const prefixedNumberBases: PrefixedNumberBase[] = [
+    {prefix: /^[bB]$/, name: 'binary', isDigitChar: isBinChara},
+    {prefix: /^[oO]$/, name: 'octal', isDigitChar: isOctChara},
+    {prefix: /^[dD]$/, name: 'decimal', isDigitChar: isDigit},
+    {prefix: /^[xX]$/, name: 'hexadecimal', isDigitChar: isHexChar},
+];
+
+// e.g., '0b1010', '0o17', '0d99', '0xFF'
+function consumePrefixedNumber(tokenizer: TokenizerState, base: PrefixedNumberBase) {
+    const start = tokenizer.getCursorPosition();
+    const prefix = tokenizer.next(0) + tokenizer.next(1);
+    tokenizer.stepFor(2);
+
+    let digitCount = 0;
+    while (tokenizer.isEnd() === false && base.isDigitChar(tokenizer.next())) {
+        tokenizer.stepNext();
+        digitCount++;
+    }
+
+    // Consume the rest of the malformed literal, e.g., '0b102' or '0xFG'
+    let invalidChar: string | undefined = undefined;
+    while (tokenizer.isEnd() === false && isAlphanumeric(tokenizer.next())) {
+        invalidChar = invalidChar ?? tokenizer.next();
+        tokenizer.stepNext();
+    }
+
+    const range = {start: start, end: tokenizer.getCursorPosition()};
+    if (invalidChar !== undefined) {
+        diagnostic.error(range, `Invalid digit '${invalidChar}' in the ${base.name} literal.`);
+    } else if (digitCount === 0) {
+        diagnostic.error(range, `The ${base.name} literal '${prefix}' has no digits.`);
+    }
+}
+
 function consumeNumber(tokenizer: TokenizerState) {
     // Fails if the next token is not a number or a dot.
     if (/^[0-9.]/.test(tokenizer.next()) === false) return NumberLiteral.Integer;
@@ -94,21 +134,9 @@ function consumeNumber(tokenizer: TokenizerState) {
     if (tokenizer.next(0) === '.' && /^[fF]$/.test(tokenizer.next(1))) return NumberLiteral.Integer;
 
     if (tokenizer.next(0) === '0') {
-        if (/^[bB]$/.test(tokenizer.next(1))) {
-            tokenizer.stepFor(2);
-            while (tokenizer.isEnd() === false && isBinChara(tokenizer.next())) tokenizer.stepNext();
-            return NumberLiteral.Integer;
-        } else if (/^[oO]$/.test(tokenizer.next(1))) {
-            tokenizer.stepFor(2);
-            while (tokenizer.isEnd() === false && isOctChara(tokenizer.next())) tokenizer.stepNext();
-            return NumberLiteral.Integer;
-        } else if (/^[dD]$/.test(tokenizer.next(1))) {
-            tokenizer.stepFor(2);
-            while (tokenizer.isEnd() === false && isDigit(tokenizer.next())) tokenizer.stepNext();
-            return NumberLiteral.Integer;
-        } else if (/^[xX]$/.test(tokenizer.next(1))) {
-            tokenizer.stepFor(2);
-            while (tokenizer.isEnd() === false && isHexChar(tokenizer.next())) tokenizer.stepNext();
+        const prefixedBase = prefixedNumberBases.find(base => base.prefix.test(tokenizer.next(1)));
+        if (prefixedBase !== undefined) {
+            consumePrefixedNumber(tokenizer, prefixedBase);
             return NumberLiteral.Integer;
         }
     }
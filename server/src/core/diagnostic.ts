@@ -16,12 +16,13 @@ function endSession(): lsp.Diagnostic[] {
     return result;
 }
 
-function pushDiagnostic(range: lsp.Range, message: string, severity: lsp.DiagnosticSeverity): void {
+function pushDiagnostic(range: lsp.Range, message: string, severity: lsp.DiagnosticSeverity, tags?: lsp.DiagnosticTag[]): void {
     s_currentDiagnostics.push({
         range: structuredClone(range),
         message: message,
         severity: severity,
         source: "AngelScript",
+        tags: tags
     });
 }
 
@@ -29,8 +30,17 @@ function error(range: lsp.Range, message: string): void {
     pushDiagnostic(range, message, lsp.DiagnosticSeverity.Error);
 }
 
+/**
+ * Reports a hint for the code that has no effect. The editor fades out the code.
+ * e.g., the code in the inactive branch of '#if'
+ */
+function unnecessary(range: lsp.Range, message: string): void {
+    pushDiagnostic(range, message, lsp.DiagnosticSeverity.Hint, [lsp.DiagnosticTag.Unnecessary]);
+}
+
 export const diagnostic = {
     beginSession: beginSession,
     endSession: endSession,
     error: error,
+    unnecessary: unnecessary,
 } as const;
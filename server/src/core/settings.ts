@@ -1,3 +1,13 @@
+/**
+ * The metadata that the application accepts.
+ * e.g., '[Range(min = 0, max = 10)]' is accepted by {name: 'Range', arguments: ['min', 'max']}
+ */
+export interface MetadataSchemaEntry {
+    name: string;
+    arguments?: string[]; // The names of the arguments. The metadata without them takes no arguments.
+    description?: string;
+}
+
 /**
  * LanguageServer settings.
  * See package.json because the settings in VSCode are defined in it.
@@ -5,6 +15,7 @@
 interface LanguageServerSettings {
     suppressAnalyzerErrors: boolean;
     includePath: string[];
+    definedSymbols: string[];
     implicitMutualInclusion: boolean;
     hoistEnumParentScope: boolean;
     explicitPropertyAccessor: boolean;
@@ -13,6 +24,20 @@ interface LanguageServerSettings {
     supportsTypedEnumerations: boolean;
     builtinStringType: string;
     builtinArrayType: string;
+    exhaustiveEnumSwitch: boolean;
+    duplicateEnumValues: boolean;
+    metadataSchema: MetadataSchemaEntry[];
+    unusedSymbols: {
+        localVariables: boolean;
+        parameters: boolean;
+        privateMembers: boolean;
+        functions: boolean;
+    };
+    implicitConversion: {
+        narrowing: boolean;
+        fractionalPart: boolean;
+        signChange: boolean;
+    };
     formatter: {
         maxBlankLines: number;
         indentSpaces: number;
@@ -26,6 +51,7 @@ interface LanguageServerSettings {
 const defaultSettings: LanguageServerSettings = {
     suppressAnalyzerErrors: true,
     includePath: [],
+    definedSymbols: [],
     implicitMutualInclusion: false,
     hoistEnumParentScope: false,
     explicitPropertyAccessor: false,
@@ -34,6 +60,20 @@ const defaultSettings: LanguageServerSettings = {
     supportsTypedEnumerations: false,
     builtinStringType: "string",
     builtinArrayType: "array",
+    exhaustiveEnumSwitch: false,
+    duplicateEnumValues: false,
+    metadataSchema: [],
+    unusedSymbols: {
+        localVariables: true,
+        parameters: true,
+        privateMembers: true,
+        functions: false
+    },
+    implicitConversion: {
+        narrowing: false,
+        fractionalPart: false,
+        signChange: false
+    },
     formatter: {
         maxBlankLines: 1,
         indentSpaces: 4,
@@ -1,11 +1,13 @@
 import * as lsp from "vscode-languageserver/node";
-import {TokenObject} from "../compiler_tokenizer/tokenObject";
+import {TokenObject, TokenString} from "../compiler_tokenizer/tokenObject";
 import {NodeScript} from "../compiler_parser/nodes";
 import {DelayedTask} from "../utils/delayedTask";
 import {PublishDiagnosticsParams} from "vscode-languageserver-protocol";
 import {getGlobalSettings} from "../core/settings";
 import {PreprocessedOutput} from "../compiler_parser/parserPreprocess";
-import {getParentDirectoryList, readFileContent, resolveIncludeUri, resolveUri} from "../service/fileUtils";
+import {
+    getParentDirectoryList, normalizeFileUri, readFileContent, resolveIncludeUri, resolveUri
+} from "../service/fileUtils";
 import {analyzerDiagnostic} from "../compiler_analyzer/analyzerDiagnostic";
 import {Profiler} from "../core/profiler";
 import {hoistAfterParsed} from "../compiler_analyzer/hoist";
@@ -15,6 +17,7 @@ import {fileURLToPath} from "node:url";
 import * as fs from "fs";
 import {AnalyzerScope, createGlobalScope} from "../compiler_analyzer/analyzerScope";
 import {AnalysisQueue, AnalysisQueuePriority} from "./analysisQueue";
+import * as path from "path";
 
 interface PartialInspectRecord {
     readonly uri: string;
@@ -27,6 +30,14 @@ interface PartialInspectRecord {
     analyzerScope: AnalyzerScope;
 }
 
+/**
+ * The file included by an include directive, e.g., 'file:///path/to/b.as' for '#include "b.as"'.
+ */
+interface IncludeDirective {
+    readonly pathToken: TokenString;
+    readonly uri: string; // The normalized URI of the included file.
+}
+
 export type InspectRequest = (uri: string, content: string) => void;
 
 export type DiagnosticsCallback = (params: PublishDiagnosticsParams) => void;
@@ -118,9 +129,9 @@ export class AnalysisResolver {
             while (this._analysisQueue.hasIndirect()) {
                 this.popAndAnalyze();
             }
-        } else if (this._analysisQueue.isInQueue(uri)) {
+        } else if (this._analysisQueue.isInQueue(this.getRecord(uri)?.uri ?? uri)) {
             // If the file is in the reanalysis queue, move it to the front of the direct queue and reanalyze it.
-            const frontRecord = this._inspectRecords.get(uri);
+            const frontRecord = this.getRecord(uri);
             if (frontRecord === undefined) return;
 
             this._analysisQueue.frontPushDirect({record: frontRecord, reanalyzeDependents: false});
@@ -147,6 +158,8 @@ export class AnalysisResolver {
         // Collect scopes in included files
         const includeScopes = this.collectIncludeScope(record, predefinedUri);
 
+        this.checkIncludeDirectives(record);
+
         const profiler = new Profiler();
 
         // Execute the hoist
@@ -179,9 +192,10 @@ export class AnalysisResolver {
     private reanalyzeFilesWithDependencyInternal(resolvedSet: Set<string>, targetUri: string, reanalyzeDependents: boolean) {
         if (resolvedSet.has(targetUri)) return;
 
+        const normalizedTargetUri = normalizeFileUri(targetUri);
         const dependentFiles = Array.from(this._inspectRecords.values()) // Get all records
-            .filter(r => this.resolveIncludePaths(r, this.findPredefinedUri(r.uri)) // Get include paths of each record
-                .some(relativeOrAbsolute => resolveIncludeUri(r.uri, relativeOrAbsolute) === targetUri) // Check if the target file is included
+            .filter(r => this.resolveIncludeUris(r, this.findPredefinedUri(r.uri)) // Get include URIs of each record
+                .includes(normalizedTargetUri) // Check if the target file is included
             );
 
         for (const dependent of dependentFiles) {
@@ -195,55 +209,66 @@ export class AnalysisResolver {
         }
     }
 
-    private resolveIncludePaths(record: PartialInspectRecord, predefinedUri: string | undefined): string[] {
+    private getRecord(uri: string): PartialInspectRecord | undefined {
+        return this._inspectRecords.get(normalizeFileUri(uri));
+    }
+
+    /**
+     * Returns the normalized URIs of the files included directly or transitively, including 'as.predefined'.
+     */
+    private resolveIncludeUris(record: PartialInspectRecord, predefinedUri: string | undefined): string[] {
         const includeSet = new Set<string>();
 
         if (record.uri !== predefinedUri && predefinedUri !== undefined) {
             // Add 'as.predefined' to the include path
-            includeSet.add(predefinedUri);
+            includeSet.add(normalizeFileUri(predefinedUri));
         }
 
         // Recursively resolve include paths
-        this.resolveIncludePathsInternal(includeSet, record);
+        this.resolveIncludeUrisInternal(includeSet, record);
 
         // Remove the current file from the include paths
-        includeSet.delete(record.uri);
+        const recordUri = normalizeFileUri(record.uri);
+        includeSet.delete(recordUri);
 
         if (getGlobalSettings().implicitMutualInclusion) {
             // If implicit mutual inclusion is enabled, include all files under the directory where 'as.predefined' is located.
             if (record.uri.endsWith(predefinedFileName) === false && predefinedUri !== undefined) {
-                const predefinedDirectory = resolveUri(predefinedUri, '.');
-                return [...Array.from(includeSet),
-                    ...Array.from(this._inspectRecords.keys())
-                        .filter(uri => uri.startsWith(predefinedDirectory))
-                        .filter(uri => uri.endsWith('.as') && uri !== record.uri)];
+                const predefinedDirectory = normalizeFileUri(resolveUri(predefinedUri, '.'));
+                Array.from(this._inspectRecords.keys())
+                    .filter(uri => uri.startsWith(predefinedDirectory))
+                    .filter(uri => uri.endsWith('.as') && uri !== recordUri)
+                    .forEach(uri => includeSet.add(uri));
             }
         }
 
         return Array.from(includeSet);
     }
 
-    private resolveIncludePathsInternal(includeSet: Set<string>, record: PartialInspectRecord) {
-        if (includeSet.has(record.uri)) return;
-        includeSet.add(record.uri);
-
-        // Add include paths from include directives
-        const includePaths =
-            record.preprocessedOutput.includePathTokens.map(token => token.getStringContent());
+    private resolveIncludeUrisInternal(includeSet: Set<string>, record: PartialInspectRecord) {
+        const recordUri = normalizeFileUri(record.uri);
+        if (includeSet.has(recordUri)) return;
+        includeSet.add(recordUri);
 
-        includePaths.forEach(path => includeSet.add(path));
-
-        // Recursively resolve include paths
-        for (const relativePath of includePaths) {
-            const uri = resolveUri(record.uri, relativePath);
-
-            const includeRecord = this._inspectRecords.get(uri);
+        // Recursively resolve include directives
+        for (const directive of this.getIncludeDirectives(record)) {
+            const includeRecord = this._inspectRecords.get(directive.uri);
             if (includeRecord !== undefined) {
-                this.resolveIncludePathsInternal(includeSet, includeRecord);
+                this.resolveIncludeUrisInternal(includeSet, includeRecord);
+            } else {
+                // The file is not inspected yet or not found.
+                includeSet.add(directive.uri);
             }
         }
     }
 
+    private getIncludeDirectives(record: PartialInspectRecord): IncludeDirective[] {
+        return record.preprocessedOutput.includePathTokens.map(pathToken => ({
+            pathToken: pathToken,
+            uri: normalizeFileUri(resolveIncludeUri(record.uri, pathToken.getStringContent()))
+        }));
+    }
+
     private findPredefinedUri(targetUri: string): string | undefined {
         const dirs = getParentDirectoryList(targetUri);
 
@@ -251,7 +276,7 @@ export class AnalysisResolver {
         for (const dir of dirs) {
             const predefinedUri = dir + `/${predefinedFileName}`;
 
-            if (this._inspectRecords.get(predefinedUri) !== undefined &&
+            if (this.getRecord(predefinedUri) !== undefined &&
                 this._resolvedPredefinedFilepaths.has(predefinedUri)
             ) {
                 // Return the record if the file has already been analyzed
@@ -301,18 +326,13 @@ export class AnalysisResolver {
     private collectIncludeScope(
         record: PartialInspectRecord, predefinedUri: string | undefined
     ): AnalyzerScope[] {
-        const preprocessOutput = record.preprocessedOutput;
-        const targetUri = record.uri;
-
         // Collect scopes in included files
-        const includePaths = this.resolveIncludePaths(record, predefinedUri);
+        const includeUris = this.resolveIncludeUris(record, predefinedUri);
 
         const includedScopes = [];
 
         // Get the analyzed scope of included files
-        for (const relativeOrAbsolute of includePaths) {
-            const uri = resolveIncludeUri(targetUri, relativeOrAbsolute);
-
+        for (const uri of includeUris) {
             const includeRecord = this._inspectRecords.get(uri);
             if (includeRecord !== undefined) {
                 includedScopes.push(includeRecord.analyzerScope);
@@ -327,16 +347,102 @@ export class AnalysisResolver {
             }
 
             // If the file is not found, notify the error
-            const includePathToken =
-                preprocessOutput.includePathTokens.find(token => token.getStringContent() === relativeOrAbsolute);
-            if (includePathToken === undefined) {
-                // This happens when implicitMutualInclusion is enabled.
+            const directive = this.getIncludeDirectives(record).find(directive => directive.uri === uri);
+            if (directive === undefined) {
+                // This happens when the file is included transitively or implicitMutualInclusion is enabled.
                 continue;
             }
 
-            analyzerDiagnostic.error(includePathToken.location, `File not found: ${relativeOrAbsolute}`);
+            const relativeOrAbsolute = directive.pathToken.getStringContent();
+            analyzerDiagnostic.error(directive.pathToken.location, `File not found: ${relativeOrAbsolute}`);
         }
 
         return includedScopes;
     }
+
+    /**
+     * Reports the include directives that form a cycle or include the files that are already included.
+     */
+    private checkIncludeDirectives(record: PartialInspectRecord) {
+        const recordUri = normalizeFileUri(record.uri);
+        const directives = this.getIncludeDirectives(record);
+        for (let i = 0; i < directives.length; i++) {
+            const directive = directives[i];
+            const pathText = directive.pathToken.getStringContent();
+
+            // e.g., '#include "b.as"' and '#include "./b.as"'
+            const previous = directives.slice(0, i).find(other => other.uri === directive.uri);
+            if (previous !== undefined) {
+                analyzerDiagnostic.warning(
+                    directive.pathToken.location,
+                    `'${pathText}' is already included.`,
+                    [{location: previous.pathToken.location, message: 'Previously included here.'}]
+                );
+                continue;
+            }
+
+            // e.g., 'a.as' includes 'b.as' and 'b.as' includes 'a.as'
+            const cycle = directive.uri === recordUri ? [] : this.findIncludeChain(directive.uri, recordUri);
+            if (cycle !== undefined) {
+                const chain = [directive, ...cycle];
+                const fileNames = [recordUri, ...chain.map(link => link.uri)].map(uri => path.posix.basename(uri));
+                analyzerDiagnostic.warning(
+                    directive.pathToken.location,
+                    `Circular include: ${fileNames.join(' -> ')}`,
+                    chain.map(link => ({
+                        location: link.pathToken.location,
+                        message: `Includes '${link.pathToken.getStringContent()}'.`
+                    }))
+                );
+                continue;
+            }
+
+            // e.g., 'a.as' includes 'b.as' and 'c.as', and 'b.as' includes 'c.as'
+            const via = directives.find(other =>
+                other.uri !== directive.uri && other.uri !== recordUri &&
+                this.findIncludeChain(other.uri, directive.uri, recordUri) !== undefined &&
+                this.findIncludeChain(directive.uri, other.uri, recordUri) === undefined
+            );
+            if (via !== undefined) {
+                analyzerDiagnostic.warning(
+                    directive.pathToken.location,
+                    `'${pathText}' is already included through '${via.pathToken.getStringContent()}'.`,
+                    [{location: via.pathToken.location, message: `'${pathText}' is included through this.`}]
+                );
+            }
+        }
+    }
+
+    /**
+     * Returns the include directives leading from the file to the target file, or undefined if the target is not reachable.
+     * The chain does not pass through the file specified by `avoidedUri`.
+     */
+    private findIncludeChain(fromUri: string, targetUri: string, avoidedUri?: string): IncludeDirective[] | undefined {
+        // Breadth-first search for the shortest chain, mapping each file to the directive that reaches it and the file containing it.
+        const previousMap = new Map<string, { directive: IncludeDirective, uri: string } | undefined>([[fromUri, undefined]]);
+        const queue = [fromUri];
+        while (queue.length > 0) {
+            const uri = queue.shift()!;
+            const record = this._inspectRecords.get(uri);
+            if (record === undefined) continue;
+
+            for (const directive of this.getIncludeDirectives(record)) {
+                if (directive.uri === targetUri) {
+                    // Trace back to the starting file.
+                    const chain = [directive];
+                    for (let link = previousMap.get(uri); link !== undefined; link = previousMap.get(link.uri)) {
+                        chain.unshift(link.directive);
+                    }
+
+                    return chain;
+                }
+
+                if (previousMap.has(directive.uri) || directive.uri === avoidedUri) continue;
+                previousMap.set(directive.uri, {directive: directive, uri: uri});
+                queue.push(directive.uri);
+            }
+        }
+
+        return undefined;
+    }
 }
@@ -13,6 +13,7 @@ import {AnalyzerScope} from "../compiler_analyzer/analyzerScope";
 import {TextPosition} from "../compiler_tokenizer/textLocation";
 import {findScopeContainingPosition} from "../service/utils";
 import {moveDiagnosticsByChanges} from "../service/contentChangeApplier";
+import {normalizeFileUri} from "../service/fileUtils";
 
 interface InspectRecord {
     content: string;
@@ -51,6 +52,7 @@ interface InspectOption {
 
 export class Inspector {
 
+    // The records are keyed by the normalized URIs so that the same file is never inspected under two URIs.
     private readonly _inspectRecords: Map<string, InspectRecord> = new Map();
 
     private _diagnosticsCallback: DiagnosticsCallback = () => {
@@ -69,7 +71,7 @@ export class Inspector {
 
     private createRecordAndInsert(uri: string, content: string): InspectRecord {
         const record = createEmptyRecord(uri, content);
-        this._inspectRecords.set(uri, record);
+        this._inspectRecords.set(normalizeFileUri(uri), record);
         return record;
     }
 
@@ -77,7 +79,7 @@ export class Inspector {
      * Get the inspected record of the specified file.
      */
     public getRecord(uri: string): Readonly<InspectRecord> {
-        const result = this._inspectRecords.get(uri);
+        const result = this._inspectRecords.get(normalizeFileUri(uri));
         if (result === undefined) return createEmptyRecord(uri, '');
         return result;
     }
@@ -99,7 +101,7 @@ export class Inspector {
     public inspectFile(uri: string, content: string, option?: InspectOption): void {
         logger.message(`[Tokenizer and Parser]\n${uri}`);
 
-        const record = this._inspectRecords.get(uri) ?? this.createRecordAndInsert(uri, content);
+        const record = this._inspectRecords.get(normalizeFileUri(uri)) ?? this.createRecordAndInsert(uri, content);
 
         // Update the content
         record.content = content;
@@ -155,7 +157,7 @@ export class Inspector {
     // }
 
     public deleteRecord(uri: string): void {
-        this._inspectRecords.delete(uri);
+        this._inspectRecords.delete(normalizeFileUri(uri));
     }
 
     /**
@@ -163,8 +165,8 @@ export class Inspector {
      * This method is used to fully apply the configuration settings.
      */
     public reinspectAllFiles() {
-        for (const uri of this._inspectRecords.keys()) {
-            this.inspectFile(uri, this._inspectRecords.get(uri)!.content);
+        for (const record of this._inspectRecords.values()) {
+            this.inspectFile(record.uri, record.content);
         }
     }
 
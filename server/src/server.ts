@@ -78,7 +78,8 @@ s_connection.onInitialize((params: lsp.InitializeParams) => {
                 resolveProvider: true,
                 triggerCharacters: [
                     ' ', '.', ':', // for autocomplete symbol
-                    '/' // for autocomplete file path
+                    '/', // for autocomplete file path
+                    '[' // for autocomplete metadata
                 ]
             },
             // diagnosticProvider: {
@@ -253,7 +254,8 @@ function profileInspect(document: lsp_textDocument.TextDocument) {
 // -----------------------------------------------
 // Semantic Tokens Provider
 s_connection.languages.semanticTokens.on((params) => {
-    return provideSemanticTokens(s_inspector.getRecord(params.textDocument.uri).rawTokens);
+    const record = s_inspector.getRecord(params.textDocument.uri);
+    return provideSemanticTokens(record.rawTokens, record.analyzerScope.globalScope);
 });
 
 // -----------------------------------------------
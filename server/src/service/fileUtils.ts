@@ -20,6 +20,21 @@ export function resolveUri(baseUri: string, relativePath: string): string {
     }
 }
 
+/**
+ * Normalizes the file URI so that the same file is identified by the same URI however the path is written.
+ * e.g., 'file:///C%3A/path/to/../file.as' --> 'file:///c:/path/file.as'
+ */
+export function normalizeFileUri(uri: string): string {
+    try {
+        const normalizedUri = pathToFileURL(path.normalize(fileURLToPath(uri))).toString();
+
+        // The drive letter on Windows is case-insensitive.
+        return normalizedUri.replace(/^file:\/\/\/([A-Za-z]):/, (_, drive: string) => `file:///${drive.toLowerCase()}:`);
+    } catch (error) {
+        return uri;
+    }
+}
+
 export function resolveIncludeUri(baseUri: string, relativePath: string): string {
     const primaryUri = resolveUri(baseUri, relativePath);
     if (isFileUri(primaryUri)) return primaryUri;
@@ -1,6 +1,7 @@
 import {SymbolGlobalScope, SymbolScope} from "../compiler_analyzer/symbolScope";
 import {TextLocation, TextPosition} from "../compiler_tokenizer/textLocation";
-import {ScopeRegionInfo} from "../compiler_analyzer/info";
+import {InitListElementInfo, ScopeRegionInfo} from "../compiler_analyzer/info";
+import {ResolvedType} from "../compiler_analyzer/resolvedType";
 
 export function takeNarrowestScopeRegion(lhs: ScopeRegionInfo, rhs: ScopeRegionInfo): ScopeRegionInfo {
     const lhsDiff = lhs.boundingLocation.getDifference();
@@ -39,3 +40,30 @@ export function findScopeContainingPosition(globalScope: SymbolGlobalScope, care
         location: found?.boundingLocation,
     };
 }
+
+/**
+ * Find the element type expected at the specified position inside an initializer list.
+ * e.g., `int` for `array<int> a = {1, $C$}`, where `$C$` is the caret.
+ */
+export function findInitListElementTypeAtPosition(globalScope: SymbolGlobalScope, caret: TextPosition): ResolvedType | undefined {
+    const path = globalScope.getContext().filepath;
+
+    let found: InitListElementInfo | undefined = undefined;
+    for (const info of globalScope.info.initListElement) {
+        const location = info.elementLocation;
+        if (location.path !== path || location.positionInRange(caret) === false) continue;
+
+        // Take the narrowest element, i.e., the innermost initializer list.
+        if (found === undefined || isNarrowerLocation(location, found.elementLocation)) found = info;
+    }
+
+    return found?.expectedType;
+}
+
+function isNarrowerLocation(lhs: TextLocation, rhs: TextLocation): boolean {
+    const lhsDiff = lhs.getDifference();
+    const rhsDiff = rhs.getDifference();
+
+    if (lhsDiff.line !== rhsDiff.line) return lhsDiff.line < rhsDiff.line;
+    return lhsDiff.character < rhsDiff.character;
+}
@@ -1,12 +1,18 @@
 import {TextRange} from "../compiler_tokenizer/textLocation";
 import {SymbolGlobalScope} from "../compiler_analyzer/symbolScope";
 import {codeActionNamedArguments} from "../actions/namedArguments";
+import {codeActionUnusedSymbol} from "../actions/unusedSymbol";
+import {codeActionImplicitConversion} from "../actions/implicitConversion";
+import {codeActionDeprecation} from "../actions/deprecation";
 import {CodeActionWrapper} from "../actions/utils";
 
 export function provideCodeAction(
     globalScope: SymbolGlobalScope, allGlobalScopes: SymbolGlobalScope[], range: TextRange
 ): CodeActionWrapper[] {
     return [
-        ...codeActionNamedArguments(globalScope, range)
+        ...codeActionNamedArguments(globalScope, range),
+        ...codeActionUnusedSymbol(globalScope, range),
+        ...codeActionImplicitConversion(globalScope, range),
+        ...codeActionDeprecation(globalScope, range)
     ];
 }
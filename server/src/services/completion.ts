@@ -1,13 +1,14 @@
 import {Position} from "vscode-languageserver";
 import {isSymbolInstanceMember, ScopePath, SymbolObjectHolder} from "../compiler_analyzer/symbolObject";
-import {CompletionItem, CompletionItemKind} from "vscode-languageserver/node";
+import {CompletionItem, CompletionItemKind, CompletionItemTag} from "vscode-languageserver/node";
 import {NodeName} from "../compiler_parser/nodes";
 import {collectParentScopeList, SymbolGlobalScope, SymbolScope} from "../compiler_analyzer/symbolScope";
 import {AutocompleteInstanceMemberInfo} from "../compiler_analyzer/info";
 import {TextPosition} from "../compiler_tokenizer/textLocation";
 import {canAccessInstanceMember} from "../compiler_analyzer/symbolUtils";
-import {findScopeContainingPosition} from "../service/utils";
+import {findInitListElementTypeAtPosition, findScopeContainingPosition} from "../service/utils";
 import {getGlobalSettings} from "../core/settings";
+import {getSymbolDeprecation} from "../compiler_analyzer/deprecation";
 
 export interface CompletionItemWrapper {
     item: CompletionItem;
@@ -29,17 +30,40 @@ export function provideCompletion(
     const prioritizedCompletion = checkMissingCompletionInScope(globalScope, caretScope, caret);
     if (prioritizedCompletion !== undefined) return prioritizedCompletion;
 
+    // Preselect the candidates for the element type expected in the initializer list.
+    // e.g. Members of 'Color' in 'array<Color> a = {$C$}'
+    const initListElementScope = findInitListElementScope(globalScope, caret);
+    if (initListElementScope !== undefined) {
+        items.push(...getCompletionSymbolsInScope(initListElementScope, false).map(preselectCompletionItem));
+    }
+
     // Return the completion candidates for the symbols in the scope itself and its parent scope.
     // e.g. Defined classes or functions in the scope.
     for (const scope of [...collectParentScopeList(caretScope), caretScope]) {
         items.push(...getCompletionSymbolsInScope(scope, true));
     }
 
-    items.push(...hoistEnumParentScope(globalScope, []));
+    items.push(...hoistEnumParentScope(globalScope, []).filter(
+        wrapper => initListElementScope === undefined || initListElementScope.symbolTable.get(wrapper.item.label) !== wrapper.symbol
+    ));
 
     return items;
 }
 
+function findInitListElementScope(globalScope: SymbolGlobalScope, caret: TextPosition): SymbolScope | undefined {
+    const expectedType = findInitListElementTypeAtPosition(globalScope, caret);
+    if (expectedType === undefined || expectedType.scopePath === undefined) return undefined;
+
+    const typeOrFunc = expectedType.typeOrFunc;
+    if (typeOrFunc.isType() === false || typeOrFunc.isEnumType() === false) return undefined;
+
+    return globalScope.resolveScope(expectedType.scopePath)?.lookupScope(expectedType.identifierText);
+}
+
+function preselectCompletionItem(wrapper: CompletionItemWrapper): CompletionItemWrapper {
+    return {item: {...wrapper.item, preselect: true}, symbol: wrapper.symbol};
+}
+
 function getCompletionSymbolsInScope(scope: SymbolScope, includeInstanceMember: boolean): CompletionItemWrapper[] {
     const items: CompletionItemWrapper[] = [];
 
@@ -172,6 +196,11 @@ function makeCompletionItem(symbolName: string, symbol: SymbolObjectHolder): Com
         item.kind = CompletionItemKind.Variable;
     }
 
+    // Overloaded functions are deprecated only if all of them are deprecated.
+    if (symbol.toList().every(overload => getSymbolDeprecation(overload) !== undefined)) {
+        item.tags = [CompletionItemTag.Deprecated];
+    }
+
     return {item, symbol};
 }
 
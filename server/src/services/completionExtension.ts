@@ -1,11 +1,12 @@
 import {findTokenContainingPosition} from "./utils";
-import {TokenObject} from "../compiler_tokenizer/tokenObject";
+import {TokenKind, TokenObject} from "../compiler_tokenizer/tokenObject";
 import {TextPosition} from "../compiler_tokenizer/textLocation";
 import {CompletionItem, CompletionItemKind} from "vscode-languageserver/node";
 import * as path from "node:path";
 import * as fs from "node:fs";
 import {fileURLToPath} from "node:url";
 import {getIncludeUriList} from "../service/fileUtils";
+import {getMetadataSchema} from "../compiler_analyzer/metadataSchema";
 
 /**
  * Returns the completion candidates in tokens like string literals for the specified position.
@@ -22,7 +23,76 @@ export function provideCompletionOfToken(rawTokens: TokenObject[], caret: TextPo
         }
     }
 
-    return undefined;
+    // If the caret is at the start of the token, the token before it is being typed.
+    const caretIndex = tokenOnCaret.token.location.start.equals(caret) && tokenOnCaret.index > 0
+        ? tokenOnCaret.index - 1
+        : tokenOnCaret.index;
+    return provideMetadataCompletion(rawTokens, caretIndex);
+}
+
+// -----------------------------------------------
+
+/**
+ * Returns the metadata names in the schema for the caret right after '[',
+ * or the argument names for the caret in the parentheses, e.g., 'max' in '[Range(min = 0, |)]'.
+ */
+function provideMetadataCompletion(rawTokens: TokenObject[], caretIndex: number): CompletionItem[] | undefined {
+    const schema = getMetadataSchema();
+    if (schema.length === 0) return undefined;
+
+    // The token before the input, such as '[' in '[Edi|'
+    const token = rawTokens[caretIndex];
+    const prevIndex = token.kind === TokenKind.Identifier ? caretIndex - 1 : caretIndex;
+    const prev = rawTokens[prevIndex];
+    if (prev === undefined) return undefined;
+
+    if (prev.text === '[') {
+        if (isMetadataOpenBracket(rawTokens, prevIndex) === false) return undefined;
+
+        return schema.map(entry => {
+            return {label: entry.name, kind: CompletionItemKind.Keyword, detail: entry.description};
+        });
+    }
+
+    if (prev.text !== '(' && prev.text !== ',') return undefined;
+
+    // Find '(' enclosing the arguments.
+    let openIndex = prevIndex;
+    while (openIndex >= 0 && rawTokens[openIndex].text !== '(') {
+        const text = rawTokens[openIndex].text;
+        if (text === '[' || text === ']' || text === ')' || text === ';') return undefined;
+        openIndex--;
+    }
+
+    const name = rawTokens[openIndex - 1];
+    if (name === undefined || name.kind !== TokenKind.Identifier) return undefined;
+    if (rawTokens[openIndex - 2]?.text !== '[' || isMetadataOpenBracket(rawTokens, openIndex - 2) === false) {
+        return undefined;
+    }
+
+    const entry = schema.find(entry => entry.name === name.text);
+    return (entry?.arguments ?? []).map(argument => {
+        return {label: argument, kind: CompletionItemKind.Property, detail: `(${entry?.name}) ${argument}`};
+    });
+}
+
+/**
+ * Returns whether '[' starts the metadata such as '[Editable]' rather than an index access such as 'array[0]'.
+ */
+function isMetadataOpenBracket(rawTokens: TokenObject[], bracketIndex: number): boolean {
+    let prevIndex = bracketIndex - 1;
+    while (prevIndex >= 0 && rawTokens[prevIndex].isCommentToken()) prevIndex--;
+
+    if (prevIndex < 0) return true;
+
+    const prev = rawTokens[prevIndex];
+    if (prev.text === ';' || prev.text === '{' || prev.text === '}') return true;
+    if (prev.text !== ']') return false;
+
+    // The metadata can be followed by another one, e.g., '[Editable] [Range(min = 0)]'
+    let openIndex = prevIndex;
+    while (openIndex >= 0 && rawTokens[openIndex].text !== '[') openIndex--;
+    return openIndex >= 0 && isMetadataOpenBracket(rawTokens, openIndex);
 }
 
 // -----------------------------------------------
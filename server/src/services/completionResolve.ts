@@ -2,8 +2,10 @@ import {SymbolGlobalScope} from "../compiler_analyzer/symbolScope";
 import {CompletionItem, CompletionItemKind} from "vscode-languageserver/node";
 import {stringifyResolvedType, stringifySymbolObject} from "../compiler_analyzer/symbolUtils";
 import {InsertTextFormat} from "vscode-languageserver";
-import {SymbolFunctionHolder, SymbolType, SymbolVariable} from "../compiler_analyzer/symbolObject";
+import {SymbolFunctionHolder, SymbolObject, SymbolType, SymbolVariable} from "../compiler_analyzer/symbolObject";
+import {getSymbolDeprecation} from "../compiler_analyzer/deprecation";
 import {CompletionItemWrapper} from "./completion";
+import {parseDocumentCommentOfSymbol, stringifyDocumentComment} from "./documentComment";
 import {NodeName} from "../compiler_parser/nodes";
 import * as path from 'path';
 
@@ -16,11 +18,11 @@ export function provideCompletionResolve(
     const item = itemWrapper.item;
     const symbol = itemWrapper.symbol;
     if (symbol?.isVariable()) {
-        return resolveVariableItem(item, symbol);
+        return resolveDocumentation(resolveVariableItem(item, symbol), symbol);
     } else if (symbol?.isType()) {
-        return resolveTypeItem(globalScope, item, symbol);
+        return resolveDocumentation(resolveTypeItem(globalScope, item, symbol), symbol);
     } else if (symbol?.isFunctionHolder()) {
-        return resolveFunctionItem(item, symbol);
+        return resolveDocumentation(resolveFunctionItem(item, symbol), symbol.first);
     }
 
     if (item.kind === CompletionItemKind.Module) {
@@ -30,6 +32,20 @@ export function provideCompletionResolve(
     return item;
 }
 
+// Set the document comment and the deprecation, e.g., "void oldFn() (deprecated: Use newFn instead.)"
+function resolveDocumentation(item: CompletionItem, symbol: SymbolObject): CompletionItem {
+    if (symbol.isType() === false || symbol.linkedNode !== undefined) {
+        const documentation = stringifyDocumentComment(parseDocumentCommentOfSymbol(symbol));
+        if (documentation.length > 0) item.documentation = {kind: 'markdown', value: documentation};
+    }
+
+    const deprecation = getSymbolDeprecation(symbol);
+    if (deprecation === undefined) return item;
+
+    item.detail += deprecation.message.length > 0 ? ` (deprecated: ${deprecation.message})` : ' (deprecated)';
+    return item;
+}
+
 // -----------------------------------------------
 
 function resolveVariableItem(item: CompletionItem, symbol: SymbolVariable) {
@@ -82,12 +98,6 @@ function resolveFunctionItem(item: CompletionItem, symbol: SymbolFunctionHolder)
     item.command = {command: 'editor.action.triggerParameterHints', title: 'Trigger Signature Help Provider'};
     // TODO: What should I do for other IDEs?
 
-    // FIXME: This doesn't work, why?
-    // item.documentation = {
-    //     kind: 'markdown',
-    //     value: getDocumentCommentOfSymbol(functionSymbol)
-    // };
-
     return item;
 }
 
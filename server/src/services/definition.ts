@@ -1,12 +1,15 @@
 import {
     isNodeEnumOrClassOrInterface,
     ScopePath,
+    SymbolFunction,
     SymbolObject
 } from "../compiler_analyzer/symbolObject";
 import {Position} from "vscode-languageserver";
 import {TokenObject} from "../compiler_tokenizer/tokenObject";
 import {isAnonymousIdentifier, SymbolGlobalScope, SymbolScope} from "../compiler_analyzer/symbolScope";
 import {TextPosition} from "../compiler_tokenizer/textLocation";
+import {NodeName} from "../compiler_parser/nodes";
+import {resolveUri} from "../service/fileUtils";
 
 /**
  * Search for the definition of the symbol at the cursor position.
@@ -26,7 +29,9 @@ export function provideDefinitionAsToken(
 ): TokenObject | undefined {
     return provideDefinition(globalScope, caret)?.identifierToken
         // fallback to namespace definition
-        ?? provideNamespaceDefinition(globalScope, allGlobalScopes, caret);
+        ?? provideNamespaceDefinition(globalScope, allGlobalScopes, caret)
+        // fallback to the module name in 'import ... from "module"'
+        ?? provideImportModuleDefinition(globalScope, allGlobalScopes, caret);
 }
 
 function provideDefinitionInternal(globalScope: SymbolGlobalScope, caret: TextPosition) {
@@ -176,4 +181,53 @@ function findNamespaceTokenNearPosition(globalScope: SymbolGlobalScope, scopePat
     }
 
     return result;
-}
\ No newline at end of file
+}
+
+// -----------------------------------------------
+
+// Find the declaration of the imported function in the module named by 'import ... from "module"'.
+function provideImportModuleDefinition(globalScope: SymbolGlobalScope, allGlobalScopes: SymbolGlobalScope[], caret: Position) {
+    const importSymbol = findImportSymbolOnModuleName(globalScope, caret);
+    if (importSymbol === undefined || importSymbol.linkedNode.nodeName !== NodeName.Import) return undefined;
+
+    const modulePath = importSymbol.linkedNode.path;
+    if (modulePath.isStringToken() === false) return undefined;
+
+    // The module name is resolved as a file relative to the importing file, with or without the extension.
+    const moduleName = modulePath.getStringContent();
+    const moduleUriCandidates = [moduleName, moduleName + '.as']
+        .map(path => resolveUri(globalScope.getContext().filepath, path));
+
+    const moduleGlobalScope = allGlobalScopes.find(scope => moduleUriCandidates.includes(scope.getContext().filepath));
+    if (moduleGlobalScope === undefined) return undefined;
+
+    const exported = moduleGlobalScope.resolveScope(importSymbol.scopePath)?.lookupSymbol(importSymbol.identifierText);
+    if (exported === undefined || exported.isFunctionHolder() === false) return undefined;
+
+    // Prefer the function declared in the module itself rather than the one imported from elsewhere.
+    const moduleFilepath = moduleGlobalScope.getContext().filepath;
+    return exported.overloadList.find(overload =>
+        overload.linkedNode.nodeName !== NodeName.Import && overload.identifierToken.location.path === moduleFilepath
+    )?.identifierToken;
+}
+
+function findImportSymbolOnModuleName(scope: SymbolScope, caret: Position): SymbolFunction | undefined {
+    for (const [key, symbolHolder] of scope.symbolTable) {
+        if (symbolHolder.isFunctionHolder() === false) continue;
+
+        for (const symbol of symbolHolder.overloadList) {
+            if (symbol.linkedNode.nodeName !== NodeName.Import) continue;
+            const location = symbol.linkedNode.path.location;
+            if (location.path === scope.getContext().filepath && location.positionInRange(caret)) return symbol;
+        }
+    }
+
+    for (const [key, child] of scope.childScopeTable) {
+        if (child.isPureNamespaceScope() === false) continue;
+
+        const result = findImportSymbolOnModuleName(child, caret);
+        if (result !== undefined) return result;
+    }
+
+    return undefined;
+}
@@ -0,0 +1,145 @@
+import {SymbolObject} from "../compiler_analyzer/symbolObject";
+import {getDocumentCommentOfSymbol} from "./utils";
+
+/**
+ * The document comment split by the Doxygen-style commands such as `@param` and `\param`.
+ */
+export interface DocumentComment {
+    description: string; // The text outside the commands, including `@brief`.
+    parameters: DocumentParameter[];
+    returns: string | undefined;
+    notes: string[];
+    references: string[]; // e.g., `@see`
+    others: { command: string, text: string }[]; // The commands not listed above, e.g., `@author`
+}
+
+export interface DocumentParameter {
+    name: string;
+    description: string;
+}
+
+// e.g., '@param[in] name' or '\param name'
+const commandRegex = /^[@\\](\w+)(\[[\w,\s]*])?(?:\s+|$)(.*)$/;
+
+export function parseDocumentCommentOfSymbol(symbol: SymbolObject): DocumentComment {
+    return parseDocumentComment(getDocumentCommentOfSymbol(symbol));
+}
+
+/**
+ * Parses the text of the document comment, e.g., '@brief Adds numbers.\n@param a The first number.\n@return The sum.'
+ */
+export function parseDocumentComment(text: string): DocumentComment {
+    const result: DocumentComment = {description: '', parameters: [], returns: undefined, notes: [], references: [], others: []};
+
+    const descriptionLines: string[] = [];
+
+    // The command whose text continues to the next line
+    let appendToCommand: ((line: string) => void) | undefined = undefined;
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        // Remove the decorations such as ' * ' in '/** ... */' or '!' in '//!'
+        const line = rawLine.replace(/^\s*(?:\*+(?!\S)|[!<])?\s?/, '').trimEnd();
+
+        const match = commandRegex.exec(line.trimStart());
+        if (match === null) {
+            if (line.trim().length === 0) {
+                // A blank line terminates the command.
+                appendToCommand = undefined;
+                descriptionLines.push('');
+            } else if (appendToCommand !== undefined) {
+                appendToCommand(line.trim());
+            } else {
+                descriptionLines.push(line);
+            }
+
+            continue;
+        }
+
+        const command = match[1];
+        const content = match[3].trim();
+        appendToCommand = undefined;
+
+        switch (command) {
+        case 'brief':
+        case 'short':
+        case 'details':
+            descriptionLines.push(content);
+            break;
+        case 'param':
+        case 'tparam': {
+            // e.g., 'a The first number.'
+            const parameterMatch = /^(\w+):?\s*(.*)$/.exec(content);
+            if (parameterMatch === null) break;
+
+            const parameter = {name: parameterMatch[1], description: parameterMatch[2]};
+            result.parameters.push(parameter);
+            appendToCommand = line => parameter.description = joinText(parameter.description, line);
+            break;
+        }
+        case 'return':
+        case 'returns':
+        case 'result':
+            result.returns = content;
+            appendToCommand = line => result.returns = joinText(result.returns ?? '', line);
+            break;
+        case 'note':
+        case 'remark':
+        case 'remarks': {
+            const index = result.notes.push(content) - 1;
+            appendToCommand = line => result.notes[index] = joinText(result.notes[index], line);
+            break;
+        }
+        case 'see':
+        case 'sa': {
+            const index = result.references.push(content) - 1;
+            appendToCommand = line => result.references[index] = joinText(result.references[index], line);
+            break;
+        }
+        case 'deprecated':
+            // The deprecation is shown separately by the callers.
+            break;
+        default: {
+            const other = {command: command, text: content};
+            result.others.push(other);
+            appendToCommand = line => other.text = joinText(other.text, line);
+            break;
+        }
+        }
+    }
+
+    result.description = descriptionLines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+    return result;
+}
+
+function joinText(text: string, line: string): string {
+    return text.length > 0 ? text + ' ' + line : line;
+}
+
+/**
+ * Returns the markdown of the document comment, e.g., "Adds numbers.\n\n*@param* `a` — The first number."
+ */
+export function stringifyDocumentComment(comment: DocumentComment): string {
+    const sections: string[] = [];
+
+    // Keep the line breaks of the comment.
+    if (comment.description.length > 0) sections.push(comment.description.replace(/(?<!\n)\n(?!\n)/g, '  \n'));
+
+    for (const parameter of comment.parameters) {
+        const description = parameter.description.length > 0 ? ' — ' + parameter.description : '';
+        sections.push(`*@param* \`${parameter.name}\`` + description);
+    }
+
+    if (comment.returns !== undefined) sections.push('*@return*' + stringifyCommandText(comment.returns));
+
+    for (const note of comment.notes) sections.push('*@note*' + stringifyCommandText(note));
+
+    for (const reference of comment.references) sections.push('*@see*' + stringifyCommandText(reference));
+
+    for (const other of comment.others) sections.push(`*@${other.command}*` + stringifyCommandText(other.text));
+
+    return sections.join('\n\n');
+}
+
+function stringifyCommandText(text: string): string {
+    return text.length > 0 ? ' ' + text : '';
+}
@@ -1,24 +1,72 @@
 import {SymbolGlobalScope} from "../compiler_analyzer/symbolScope";
 import {TextPosition} from "../compiler_tokenizer/textLocation";
 import {provideDefinition} from "./definition";
-import {getDocumentCommentOfSymbol} from "./utils";
-import {stringifySymbolObject} from "../compiler_analyzer/symbolUtils";
+import {stringifyResolvedType, stringifySymbolObject} from "../compiler_analyzer/symbolUtils";
+import {parseDocumentCommentOfSymbol, stringifyDocumentComment} from "./documentComment";
+import {findInitListElementTypeAtPosition} from "../service/utils";
+import {evaluateConstantVariable, stringifyConstantValue} from "../compiler_analyzer/constantEvaluator";
+import {SymbolObject} from "../compiler_analyzer/symbolObject";
+import {stringifyMetadata} from "../compiler_parser/nodesUtils";
+import {getSymbolDeprecation} from "../compiler_analyzer/deprecation";
 
 import * as lsp from 'vscode-languageserver';
 
 export function provideHover(globalScope: SymbolGlobalScope, caret: TextPosition): lsp.Hover | undefined {
     const definition = provideDefinition(globalScope, caret);
-    if (definition === undefined) return undefined;
+    if (definition === undefined) return provideInitListElementHover(globalScope, caret);
 
-    const documentComment = getDocumentCommentOfSymbol(definition);
+    const documentComment = stringifyDocumentComment(parseDocumentCommentOfSymbol(definition));
 
     return {
         contents: {
             kind: 'markdown',
             // FIXME: Currently colored in C++, because AngelScript support in linguist looks poor.
             // I would like to see someone motivated to be a linguist contributor! https://github.com/github-linguist/linguist
-            value: "```cpp\n" + stringifySymbolObject(definition) + ";\n```" + `\n***\n${documentComment}`
+            value: "```cpp\n" + stringifyMetadataPrefix(definition) + stringifySymbolObject(definition, true) + stringifyConstantSuffix(globalScope, definition) + ";\n```" +
+                `\n***\n${stringifyDeprecationNote(definition)}${documentComment}`
             // value: "```AngelScript\n" + stringifySymbolObject(definition) + "\n```"
         }
     };
 }
+
+/**
+ * Returns the metadata of the declaration in separate lines, e.g., `[Editable]\n` in `[Editable]\nint hp`.
+ */
+function stringifyMetadataPrefix(symbol: SymbolObject): string {
+    return symbol.metadata.map(metadata => stringifyMetadata(metadata) + '\n').join('');
+}
+
+/**
+ * Returns the note for the deprecated symbol, e.g., `**Deprecated**: Use newFn instead.`
+ */
+function stringifyDeprecationNote(symbol: SymbolObject): string {
+    const deprecation = getSymbolDeprecation(symbol);
+    if (deprecation === undefined) return '';
+
+    return deprecation.message.length > 0 ? `**Deprecated**: ${deprecation.message}\n\n` : '**Deprecated**\n\n';
+}
+
+/**
+ * Returns the value of the enum member or the constant variable, e.g., ` = 4 (0x4)` in `Flags FLAG_C = 4 (0x4)`.
+ */
+function stringifyConstantSuffix(globalScope: SymbolGlobalScope, symbol: SymbolObject): string {
+    if (symbol.isVariable() === false) return '';
+
+    const value = evaluateConstantVariable(globalScope, symbol);
+    return value === undefined ? '' : ` = ${stringifyConstantValue(value)}`;
+}
+
+/**
+ * Shows the element type expected by the initializer list, e.g., `int` when hovering over `1` in `array<int> a = {1}`.
+ */
+function provideInitListElementHover(globalScope: SymbolGlobalScope, caret: TextPosition): lsp.Hover | undefined {
+    const expectedType = findInitListElementTypeAtPosition(globalScope, caret);
+    if (expectedType === undefined) return undefined;
+
+    return {
+        contents: {
+            kind: 'markdown',
+            value: "```cpp\n" + stringifyResolvedType(expectedType) + "\n```" + `\n***\nExpected element type of the initializer list.`
+        }
+    };
+}
@@ -8,6 +8,7 @@ import {stringifyResolvedType} from "../compiler_analyzer/symbolUtils";
 export function provideInlayHint(globalScope: SymbolGlobalScope, location: TextLocation): lsp.InlayHint[] {
     return [
         ...inlayHintOperatorOverloadDefinition(globalScope, location),
+        ...inlayHintUnaryOperatorOverloadCall(globalScope, location),
         ...inlayHintAutoType(globalScope, location),
         ...inlayHintFunctionCall(globalScope, location)
     ];
@@ -120,6 +121,33 @@ function inlayHintOperatorOverloadDefinition(scope: SymbolScope, location: TextL
     return result;
 }
 
+// -----------------------------------------------
+
+function inlayHintUnaryOperatorOverloadCall(globalScope: SymbolGlobalScope, location: TextLocation) {
+    const result: lsp.InlayHint[] = [];
+    for (const reference of globalScope.info.reference) {
+        const callerOperator = reference.fromToken;
+        if (location.intersects(callerOperator.location) === false) continue;
+
+        const calleeFunction = reference.toSymbol;
+        if (calleeFunction.isFunction() === false) continue;
+
+        // The unary operator overloads have no parameters, e.g., 'opNeg()' but not 'opSub(const T &in)'
+        if (calleeFunction.parameterTypes.length > 0) continue;
+
+        const operatorText = operatorOverloads.get(calleeFunction.identifierText);
+        if (operatorText !== callerOperator.text) continue;
+
+        // Push the called operator overload, e.g., "-obj" is shown as "-: opNeg obj"
+        result.push({
+            position: callerOperator.location.end,
+            label: `: ${calleeFunction.identifierText} `
+        });
+    }
+
+    return result;
+}
+
 const operatorOverloads = new Map([
     // Prefix unary operators
     ['opNeg', '-'],
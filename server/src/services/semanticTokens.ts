@@ -1,23 +1,34 @@
 import {SemanticTokensBuilder} from "vscode-languageserver/node";
 import {TokenObject} from "../compiler_tokenizer/tokenObject";
 import {SemanticTokens} from "vscode-languageserver-protocol";
+import {SymbolGlobalScope} from "../compiler_analyzer/symbolScope";
+import {HighlightForModifier, HighlightForToken} from "../core/highlight";
+
+export function provideSemanticTokens(tokens: TokenObject[], globalScope: SymbolGlobalScope | undefined): SemanticTokens {
+    // The references to the deprecated symbols are struck through.
+    const deprecatedTokens = new Set(globalScope?.info.deprecatedReference.map(info => info.fromToken));
 
-export function provideSemanticTokens(tokens: TokenObject[]): SemanticTokens {
     const builder = new SemanticTokensBuilder();
     tokens.forEach((token, i) => {
-        pushTokenToBuilder(builder, token);
+        const modifier = deprecatedTokens.has(token) ? HighlightForModifier.Deprecated : token.highlight.modifier;
+        pushTokenToBuilder(builder, token, token.highlight.token, modifier);
     });
 
     return builder.build();
 }
 
-function pushTokenToBuilder(builder: SemanticTokensBuilder, token: TokenObject) {
+function pushTokenToBuilder(
+    builder: SemanticTokensBuilder, token: TokenObject, highlightToken: HighlightForToken, highlightModifier: HighlightForModifier
+) {
+    // The modifiers are sent as a bit set.
+    const modifierBits = highlightModifier === HighlightForModifier.Nothing ? 0 : 1 << highlightModifier;
+
     builder.push(
         token.location.start.line,
         token.location.start.character,
         token.text.length,
-        token.highlight.token,
-        token.highlight.modifier);
+        highlightToken,
+        modifierBits);
 
     if (token.location.start.line === token.location.end.line) return;
 
@@ -27,13 +38,13 @@ function pushTokenToBuilder(builder: SemanticTokensBuilder, token: TokenObject)
             i,
             0,
             token.text.length,
-            token.highlight.token,
-            token.highlight.modifier);
+            highlightToken,
+            modifierBits);
     }
     builder.push(
         token.location.end.line,
         0,
         token.location.end.character,
-        token.highlight.token,
-        token.highlight.modifier);
-}
\ No newline at end of file
+        highlightToken,
+        modifierBits);
+}
@@ -3,10 +3,10 @@ import {Position, SignatureHelp, URI} from "vscode-languageserver";
 import {ParameterInformation, SignatureInformation} from "vscode-languageserver-types";
 import {FunctionCallInfo} from "../compiler_analyzer/info";
 import {stringifyResolvedType} from "../compiler_analyzer/symbolUtils";
+import {parseDocumentCommentOfSymbol, stringifyDocumentComment} from "./documentComment";
 import {SymbolGlobalScope, SymbolScope} from "../compiler_analyzer/symbolScope";
 import {TextPosition} from "../compiler_tokenizer/textLocation";
 import {applyTemplateTranslator} from "../compiler_analyzer/resolvedType";
-import {getDocumentCommentOfSymbol} from "./utils";
 
 export function provideSignatureHelp(
     globalScope: SymbolGlobalScope, caret: Position, uri: URI
@@ -42,6 +42,8 @@ export function provideSignatureHelp(
 function getFunctionSignature(info: FunctionCallInfo, expectedCallee: SymbolFunction, caret: TextPosition) {
     const parameters: ParameterInformation[] = [];
 
+    const documentComment = parseDocumentCommentOfSymbol(expectedCallee);
+
     let activeIndex = 0;
 
     let signatureLabel = expectedCallee.linkedNode.identifier.text + '(';
@@ -53,6 +55,12 @@ function getFunctionSignature(info: FunctionCallInfo, expectedCallee: SymbolFunc
         if (paramIdentifier.identifier !== undefined) label += ' ' + paramIdentifier.identifier?.text;
         const parameter: ParameterInformation = {label: label};
 
+        // e.g., 'The first number.' in '@param a The first number.'
+        const parameterDocument = documentComment.parameters.find(param => param.name === paramIdentifier.identifier?.text);
+        if (parameterDocument !== undefined) {
+            parameter.documentation = {kind: 'markdown', value: parameterDocument.description};
+        }
+
         if (i > 0) signatureLabel += ', ';
         signatureLabel += label;
 
@@ -71,7 +79,7 @@ function getFunctionSignature(info: FunctionCallInfo, expectedCallee: SymbolFunc
         label: signatureLabel,
         parameters: parameters,
         activeParameter: activeIndex,
-        documentation: getDocumentCommentOfSymbol(expectedCallee)
+        documentation: {kind: 'markdown', value: stringifyDocumentComment(documentComment)}
     };
 
     return signature;
@@ -130,7 +130,7 @@ export function getDocumentCommentOfToken(token: TokenObject) {
 
         // CHECK: Is the following expression optimized by V8?
         documentComment = documentComment.length > 0
-            ? commentText + '\n\n' + documentComment
+            ? commentText + '\n' + documentComment
             : commentText;
 
         if (currentToken.prevRaw === undefined) {
@@ -23,3 +23,46 @@ export type DeepReadonly<T> = {
             ? DeepReadonly<T[P]>
             : T[P];
 };
+
+/**
+ * Returns the number of single-character insertions, deletions or substitutions required to change one string into the other.
+ */
+export function getEditDistance(a: string, b: string): number {
+    let previousRow = Array.from({length: b.length + 1}, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const currentRow = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const substitution = previousRow[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+            currentRow.push(Math.min(previousRow[j] + 1, currentRow[j - 1] + 1, substitution));
+        }
+
+        previousRow = currentRow;
+    }
+
+    return previousRow[b.length];
+}
+
+/**
+ * Finds the candidate that is most likely intended by the misspelled name. e.g., 'count' for 'cout'
+ * Returns undefined if no candidate is close enough.
+ */
+export function findSimilarName(name: string, candidates: string[]): string | undefined {
+    // Allow about one typo per three characters.
+    const maxDistance = Math.max(1, Math.ceil(name.length / 3));
+
+    let bestCandidate: string | undefined = undefined;
+    let bestDistance = maxDistance + 1;
+    for (const candidate of candidates) {
+        const distance = getEditDistance(name.toLowerCase(), candidate.toLowerCase());
+
+        // A candidate that shares no characters with the name is not similar. e.g., 'b' for 'a'
+        if (distance >= Math.max(name.length, candidate.length)) continue;
+
+        if (distance < bestDistance) {
+            bestCandidate = candidate;
+            bestDistance = distance;
+        }
+    }
+
+    return bestCandidate;
+}
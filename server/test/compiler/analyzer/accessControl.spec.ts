@@ -0,0 +1,82 @@
+import {expectError, expectSuccess} from "./utils";
+
+describe('analyzer/accessControl', () => {
+    expectSuccess(`// Private and protected members are accessible from the class and the derived class respectively
+        class Base {
+            private int secret;
+            private void hidden() { secret = 1; }
+            protected void guarded() { hidden(); }
+            protected Base(int x) { }
+            Base() { }
+        }
+
+        class Derived : Base {
+            Derived() { super(1); }
+            void run() { guarded(); }
+        }
+    `);
+
+    expectError(`// A private method cannot be called from outside the class
+        class Foo {
+            private void hidden() { }
+        }
+
+        void main() {
+            Foo foo;
+            foo.hidden();
+        }
+    `);
+
+    expectError(`// A private method cannot be called from the derived class
+        class Base {
+            private void hidden() { }
+        }
+
+        class Derived : Base {
+            void run() { hidden(); }
+        }
+    `);
+
+    expectError(`// A protected method cannot be called from outside the class
+        class Foo {
+            protected void guarded() { }
+        }
+
+        void main() {
+            Foo foo;
+            foo.guarded();
+        }
+    `);
+
+    expectError(`// A private operator cannot be called from outside the class
+        class Vector {
+            private Vector opNeg() { return this; }
+        }
+
+        void main() {
+            Vector v;
+            Vector w = -v;
+        }
+    `);
+
+    expectError(`// A private constructor cannot be called from outside the class
+        class Singleton {
+            private Singleton() { }
+        }
+
+        void main() {
+            Singleton instance;
+        }
+    `);
+
+    expectError(`// A private base constructor cannot be called by 'super'
+        class Base {
+            Base() { }
+            private Base(int x) { }
+        }
+
+        class Derived : Base {
+            Derived() { super(1); }
+        }
+    `);
+});
@@ -0,0 +1,116 @@
+import {expectError, expectSuccess} from "./utils";
+
+const counterDeclaration = `
+    class Counter {
+        int value;
+        int get() const { return value; }
+        void increment() { value++; }
+    }
+`;
+
+describe('analyzer/const', () => {
+    expectSuccess(counterDeclaration + `// Const methods can be called on const objects
+        void main(const Counter& in counter, const Counter@ handle) {
+            int value = counter.get() + handle.get();
+            @handle = null;
+        }
+    `);
+
+    expectError(counterDeclaration + `// Non-const methods cannot be called on const objects
+        void main() {
+            const Counter counter;
+            counter.increment();
+        }
+    `);
+
+    expectError(counterDeclaration + `// Non-const methods cannot be called through const handles
+        void main(const Counter@ handle) {
+            handle.increment();
+        }
+    `);
+
+    expectError(`// Const variables cannot be assigned
+        void main() {
+            const int limit = 10;
+            limit = 20;
+        }
+    `);
+
+    expectError(`// Const variables cannot be incremented
+        void main() {
+            const int limit = 10;
+            limit++;
+        }
+    `);
+
+    expectError(counterDeclaration + `// Fields of const objects are read-only
+        void main() {
+            const Counter counter;
+            counter.value = 1;
+        }
+    `);
+
+    expectError(`// Members cannot be modified inside const methods
+        class Counter {
+            int value;
+            void reset() const { value = 0; }
+        }
+    `);
+
+    expectError(`// Non-const methods cannot be called inside const methods
+        class Counter {
+            void increment() { }
+            void broken() const { increment(); }
+        }
+    `);
+
+    expectSuccess(`// Objects referred to by handle members can be modified inside const methods
+        class Target {
+            void poke() { }
+        }
+
+        class Holder {
+            Target@ target;
+            void check() const { target.poke(); }
+        }
+
+        void main(const Holder@ holder) {
+            holder.target.poke();
+        }
+    `);
+
+    expectError(`// Handle members cannot be rebound inside const methods
+        class Target { }
+
+        class Holder {
+            Target@ target;
+            void clear() const { @target = null; }
+        }
+    `);
+
+    expectSuccess(`// Non-const objects prefer non-const overloads
+        class Container {
+            int dummy;
+            int& opIndex(uint i) { return dummy; }
+            const int& opIndex(uint i) const { return dummy; }
+        }
+
+        void main() {
+            Container container;
+            container[0] = 1;
+        }
+    `);
+
+    expectError(`// Const objects use const overloads
+        class Container {
+            int dummy;
+            int& opIndex(uint i) { return dummy; }
+            const int& opIndex(uint i) const { return dummy; }
+        }
+
+        void main() {
+            const Container container;
+            container[0] = 1;
+        }
+    `);
+});
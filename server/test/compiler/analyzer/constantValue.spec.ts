@@ -0,0 +1,76 @@
+import {expectError, expectSuccess} from "./utils";
+import {copyGlobalSettings, resetGlobalSettings} from "../../../src/core/settings";
+
+function enableDuplicateEnumValues() {
+    const settings = copyGlobalSettings();
+    settings.duplicateEnumValues = true;
+    resetGlobalSettings(settings);
+}
+
+describe('analyzer/constantValue', () => {
+    after(() => {
+        resetGlobalSettings(undefined);
+    });
+
+    expectSuccess(`// Constants are folded through casts, floats and conditions
+        const double RATIO = 2.5;
+        const bool VERBOSE = RATIO > 2 && !false;
+
+        void main(int value) {
+            switch (value) {
+            case int(RATIO * 2): break;
+            case (VERBOSE ? 1 : 0): break;
+            case uint8(258): break;
+            }
+        }
+    `);
+
+    expectError(`// Constants folded to the same value are duplicates
+        const int SHIFT = 2;
+
+        void main(int value) {
+            switch (value) {
+            case 1 << SHIFT: break;
+            case int(4.9): break;
+            }
+        }
+    `);
+
+    expectError(`// A floating-point constant is not an integer case value
+        const float SCALE = 1.5f;
+
+        void main(int value) {
+            switch (value) {
+            case SCALE: break;
+            }
+        }
+    `);
+
+    expectError(`// A power with a huge exponent is not evaluated
+        void main(int value) {
+            switch (value) {
+            case 2 ** 100000000000: break;
+            }
+        }
+    `);
+
+    expectSuccess(`// Duplicate enum values are allowed unless requested
+        enum Color { Red, Green, Crimson = 0 }
+    `);
+
+    expectSuccess(`// Enum values are distinct
+        enum Flags { A = 1, B = A << 1, C = B << 1, D }
+    `).onBegin(enableDuplicateEnumValues);
+
+    expectError(`// Enum values computed from the initializers are duplicated
+        enum Flags { A = 1, B = A << 1, C = B << 1, D = B + B }
+    `).onBegin(enableDuplicateEnumValues);
+
+    expectSuccess(`// The shift count is masked by the width of the operand
+        enum Flags { A = 1 << 4000000000, B = 2 }
+    `).onBegin(enableDuplicateEnumValues);
+
+    expectError(`// The shifted value is wrapped to 32 bits
+        enum Flags { A = 1 << 33, B = 2 }
+    `).onBegin(enableDuplicateEnumValues);
+});
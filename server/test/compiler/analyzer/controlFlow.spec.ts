@@ -0,0 +1,104 @@
+import {DiagnosticTag} from "vscode-languageserver-types";
+import {expectError, expectSuccess} from "./utils";
+import {inspectFileContents, makeFileContentList} from "../../inspectorUtils";
+import {CaretMap} from "../../services/caretMap";
+
+/**
+ * Expects the unreachable code to be reported from the caret '$C0$' to the caret '$C1$'.
+ */
+function expectUnreachableCode(content: string) {
+    const fileContentList = makeFileContentList(content);
+    const caretMap = new CaretMap().processFiles(fileContentList);
+
+    it(`[analyzer] ${fileContentList[0].content}`, () => {
+        const inspector = inspectFileContents(fileContentList);
+
+        const hints = inspector.getRecord(fileContentList[0].uri).diagnosticsInAnalyzer.filter(
+            diagnostic => diagnostic.message === 'Unreachable code detected.'
+        );
+        if (hints.length !== 1) throw new Error(`Expected one unreachable code hint, but got ${hints.length}`);
+
+        const {range, tags} = hints[0];
+        if (tags?.includes(DiagnosticTag.Unnecessary) !== true) throw new Error('Expected the Unnecessary tag.');
+
+        const expected = [caretMap.get(0).position, caretMap.get(1).position].map(p => `${p.line}:${p.character}`).join('-');
+        const actual = [range.start, range.end].map(p => `${p.line}:${p.character}`).join('-');
+        if (actual !== expected) throw new Error(`Expected the unreachable code at ${expected}, but got ${actual}`);
+    });
+}
+
+describe("analyzer/controlFlow", () => {
+    expectSuccess(`// All code paths return a value
+        int fn(int x) {
+            if (x > 0) return 1;
+            else if (x < 0) return -1;
+            else return 0;
+        }
+
+        int loop() {
+            while (true) { }
+        }
+
+        int select(int x) {
+            switch (x) {
+            case 1: return 1;
+            default: return 2;
+            }
+        }
+
+        int guard() {
+            try { return 1; } catch { return 2; }
+        }
+    `);
+
+    expectSuccess(`// Unreachable code is not an error
+        void fn() {
+            return;
+            fn();
+        }
+    `);
+
+    expectUnreachableCode(`// The statements after 'return' are reported as unreachable
+        void fn() {
+            return;
+            $C0$fn();
+            int x = 1;$C1$
+        }
+    `);
+
+    expectUnreachableCode(`// The statements after 'break' are reported as unreachable
+        void fn() {
+            while (true) {
+                break;
+                $C0$fn();$C1$
+            }
+        }
+    `);
+
+    expectError(`// Not all code paths return a value
+        int fn(int x) {
+            if (x > 0) return 1;
+        }
+    `);
+
+    expectError(`// An infinite loop with 'break' completes
+        int fn() {
+            while (true) { break; }
+        }
+    `);
+
+    expectError(`// A switch with 'break' completes
+        int fn(int x) {
+            switch (x) {
+            case 1: break;
+            default: return 2;
+            }
+        }
+    `);
+
+    expectError(`// The property getter must return a value
+        class Foo {
+            int value { get { } }
+        }
+    `);
+});
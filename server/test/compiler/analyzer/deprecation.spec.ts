@@ -0,0 +1,95 @@
+import {DiagnosticTag} from "vscode-languageserver-types";
+import {FileContents, inspectFileContents, makeFileContentList} from "../../inspectorUtils";
+import {copyGlobalSettings, resetGlobalSettings} from "../../../src/core/settings";
+
+function testDeprecatedReferences(fileContents: FileContents, expected: string[]) {
+    const fileContentList = makeFileContentList(fileContents);
+    const target = fileContentList.at(-1)!;
+
+    it(`[deprecation] ${target.content}`, () => {
+        const inspector = inspectFileContents(fileContentList);
+
+        const actual = inspector.getRecord(target.uri).diagnosticsInAnalyzer
+            .filter(diagnostic => diagnostic.tags?.includes(DiagnosticTag.Deprecated))
+            .map(diagnostic => diagnostic.message);
+
+        if (JSON.stringify(actual.sort()) !== JSON.stringify(expected.sort())) {
+            throw new Error(`Expected deprecated references [${expected}], but got [${actual}]`);
+        }
+    });
+}
+
+describe('analyzer/deprecation', () => {
+    testDeprecatedReferences(`// References to symbols marked with the metadata or the document comment are reported
+        void newFn() { }
+
+        [deprecated("Use newFn instead.")]
+        void oldFn() { }
+
+        // @deprecated Use 'limit' instead.
+        const int MAX = 10;
+
+        [deprecated]
+        class Legacy { }
+
+        void main() {
+            oldFn();
+            newFn();
+            Legacy legacy;
+            int x = MAX;
+        }
+    `, [
+        "'oldFn' is deprecated: Use newFn instead.",
+        "'MAX' is deprecated: Use 'limit' instead.",
+        "'Legacy' is deprecated."
+    ]);
+
+    testDeprecatedReferences([
+        {
+            uri: 'file:///path/to/as.predefined',
+            content: `
+                class Engine {
+                    [deprecated("Use tick() instead.")]
+                    void update();
+                    void tick();
+                }
+            `
+        },
+        {
+            uri: 'file:///path/to/file.as',
+            content: `// Deprecated APIs in as.predefined are reported
+                void main(Engine@ engine) {
+                    engine.update();
+                    engine.tick();
+                }
+            `
+        }
+    ], ["'update' is deprecated: Use tick() instead."]);
+
+    describe("foreach", () => {
+        before(() => {
+            const settings = copyGlobalSettings();
+            settings.supportsForEach = true;
+            resetGlobalSettings(settings);
+        });
+
+        after(() => {
+            resetGlobalSettings(undefined);
+        });
+
+        testDeprecatedReferences(`// The methods called by foreach are reported on the keyword
+            class Inventory {
+                uint opForBegin() const { return 0; }
+                bool opForEnd(uint index) const { return true; }
+                uint opForNext(uint index) const { return index + 1; }
+                [deprecated("Use opForValue0 instead.")]
+                int opForValue(uint index) const { return 0; }
+            }
+
+            void main() {
+                Inventory inventory;
+                foreach (auto item : inventory) { }
+            }
+        `, ["'opForValue' is deprecated: Use opForValue0 instead."]);
+    });
+});
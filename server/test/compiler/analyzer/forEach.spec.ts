@@ -0,0 +1,68 @@
+import {expectError, expectSuccess} from "./utils";
+import {copyGlobalSettings, resetGlobalSettings} from "../../../src/core/settings";
+
+function enableForEach() {
+    const settings = copyGlobalSettings();
+    settings.supportsForEach = true;
+    resetGlobalSettings(settings);
+}
+
+const containerDeclaration = `
+    class Item { int weight; }
+
+    class Inventory {
+        uint opForBegin() const { return 0; }
+        bool opForEnd(uint index) const { return true; }
+        uint opForNext(uint index) const { return index + 1; }
+        Item@ opForValue0(uint index) const { return null; }
+        uint opForValue1(uint index) const { return index; }
+    }
+`;
+
+describe("analyzer/forEach", () => {
+    after(() => {
+        resetGlobalSettings(undefined);
+    });
+
+    expectSuccess(containerDeclaration + `// Loop variables are resolved by opForValue{N}
+        void main() {
+            Inventory inventory;
+            foreach (auto item, auto index : inventory) {
+                int weight = item.weight;
+                uint next = index + 1;
+            }
+        }
+    `).onBegin(enableForEach);
+
+    expectSuccess(containerDeclaration + `// A single variable uses the first value
+        void main() {
+            Inventory inventory;
+            foreach (Item@ item : inventory) {
+                int weight = item.weight;
+            }
+        }
+    `).onBegin(enableForEach);
+
+    expectError(containerDeclaration + `// The explicit type does not match the value
+        void main() {
+            Inventory inventory;
+            foreach (bool item : inventory) { }
+        }
+    `).onBegin(enableForEach);
+
+    expectError(containerDeclaration + `// The number of variables exceeds the values
+        void main() {
+            Inventory inventory;
+            foreach (auto item, auto index, auto extra : inventory) { }
+        }
+    `).onBegin(enableForEach);
+
+    expectError(`// The container does not implement the foreach protocol
+        class Bag { }
+
+        void main() {
+            Bag bag;
+            foreach (auto item : bag) { }
+        }
+    `).onBegin(enableForEach);
+});
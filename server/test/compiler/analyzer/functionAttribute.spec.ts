@@ -0,0 +1,108 @@
+import {expectError, expectSuccess} from "./utils";
+
+describe('analyzer/functionAttribute', () => {
+    expectSuccess(`// 'override' overrides a method of the base class
+        class Base {
+            void run(int x) { }
+        }
+
+        class Derived : Base {
+            void run(int x) override { }
+        }
+    `);
+
+    expectError(`// 'override' must override a method of the base class
+        class Base {
+            void run(int x) { }
+        }
+
+        class Derived : Base {
+            void run(float x) override { }
+        }
+    `);
+
+    expectError(`// A final method cannot be overridden
+        class Base {
+            void run() final { }
+        }
+
+        class Derived : Base {
+            void run() { }
+        }
+    `);
+
+    expectError(`// A final class cannot be inherited
+        final class Base { }
+
+        class Derived : Base { }
+    `);
+
+    expectError(`// A deleted function cannot be called
+        void fn(int x) delete;
+
+        void main() {
+            fn(1);
+        }
+    `);
+
+    expectSuccess(`// An explicit constructor can be called directly
+        class Meter {
+            Meter(int value) explicit { }
+        }
+
+        void main() {
+            Meter meter = Meter(1);
+        }
+    `);
+
+    expectError(`// An explicit constructor is not used in implicit conversions
+        class Meter {
+            Meter(int value) explicit { }
+        }
+
+        void main() {
+            Meter meter = 1;
+        }
+    `);
+
+    expectSuccess(`// 'opConv' is used in explicit conversions
+        class Flag {
+            bool opConv() const { return true; }
+        }
+
+        void main() {
+            Flag flag;
+            bool value = bool(flag);
+        }
+    `);
+
+    expectError(`// 'opConv' is not used in implicit conversions
+        class Flag {
+            bool opConv() const { return true; }
+        }
+
+        void main() {
+            Flag flag;
+            bool value = flag;
+        }
+    `);
+
+    expectSuccess(`// The return value of a 'nodiscard' function is used
+        int compute() nodiscard { return 1; }
+
+        void main() {
+            int value = compute();
+        }
+    `);
+
+    expectError(`// The return value of a 'nodiscard' function is discarded
+        class Calculator {
+            int compute() nodiscard { return 1; }
+        }
+
+        void main() {
+            Calculator calculator;
+            calculator.compute();
+        }
+    `);
+});
@@ -0,0 +1,78 @@
+import {expectDiagnostics, expectError, expectSuccess} from "./utils";
+
+describe('analyzer/handle', () => {
+    expectSuccess(`// 'null' can be assigned to and compared with handles
+        class Obj { }
+        void main() {
+            Obj@ a = null;
+            Obj b;
+            @a = @b;
+            @a = null;
+            if (a is null || null !is a) { }
+            if (a is b) { }
+        }
+    `);
+
+    expectError(`// 'null' cannot be assigned to a non-handle value
+        void main() {
+            int a = null;
+        }
+    `);
+
+    expectError(`// 'null' cannot be compared with a non-handle value
+        void main() {
+            int a = 0;
+            if (a is null) { }
+        }
+    `);
+
+    expectError(`// 'is' requires handles
+        void main() {
+            int a = 0;
+            int b = 1;
+            if (a is b) { }
+        }
+    `);
+
+    expectError(`// A handle cannot be taken of a primitive value
+        void main() {
+            int a = 0;
+            int@ b = @a;
+        }
+    `);
+
+    expectError(`// A read-only handle cannot be rebound
+        class Obj { }
+        void main() {
+            Obj b;
+            Obj@ const a = @b;
+            @a = @b;
+        }
+    `);
+
+    expectDiagnostics(`// A handle of another type cannot be rebound, and 'opAssign' is not looked up
+        class A { }
+        class B { }
+        void main(B@ x) {
+            A@ a;
+            @a = $C0$@x;
+        }
+    `, [{message: "'B@' cannot be converted to 'A@'."}]);
+
+    expectError(`// A read-only object cannot be referred to by a non-const handle
+        class Obj { }
+        void main() {
+            const Obj@ a = Obj();
+            Obj@ b = a;
+        }
+    `);
+
+    expectSuccess(`// A read-only object can be referred to by a const handle
+        class Obj { }
+        void main() {
+            const Obj@ a = Obj();
+            const Obj@ b = a;
+            @b = @a;
+        }
+    `);
+});
@@ -0,0 +1,66 @@
+import {expectError, expectSuccess} from "./utils";
+import {resetGlobalSettings} from "../../../src/core/settings";
+import {enableImplicitConversionWarnings} from "../../inspectorUtils";
+
+describe('analyzer/implicitConversion', () => {
+    after(() => {
+        resetGlobalSettings(undefined);
+    });
+
+    expectSuccess(`// Implicit conversions are not reported unless requested
+        void main(int64 big, double real) {
+            int8 small = big;
+            int truncated = real;
+        }
+    `);
+
+    expectError(`// A literal that loses the fractional part is reported
+        void main() {
+            int value = 1.5;
+        }
+    `);
+
+    expectSuccess(`// A literal that converts exactly is not reported
+        void main() {
+            int value = 2.0;
+        }
+    `);
+
+    expectSuccess(`// Widening, literals and explicit conversions are not reported
+        void main(int value, float real) {
+            int64 wide = value;
+            double precise = real;
+            int8 small = 1;
+            uint count = 2 * 3;
+            int8 narrowed = int8(value);
+            uint unsigned = uint(value);
+        }
+    `).onBegin(enableImplicitConversionWarnings);
+
+    expectError(`// An implicit conversion to a smaller integer type is reported
+        void main(int64 big) {
+            int8 small = big;
+        }
+    `).onBegin(enableImplicitConversionWarnings);
+
+    expectError(`// An implicit conversion from double to float is reported
+        float toFloat(double real) {
+            return real;
+        }
+    `).onBegin(enableImplicitConversionWarnings);
+
+    expectError(`// An implicit conversion that loses the fractional part is reported
+        void main(double real) {
+            int value;
+            value = real;
+        }
+    `).onBegin(enableImplicitConversionWarnings);
+
+    expectError(`// An implicit conversion that changes the signedness is reported
+        void take(uint count) { }
+
+        void main(int value) {
+            take(value);
+        }
+    `).onBegin(enableImplicitConversionWarnings);
+});
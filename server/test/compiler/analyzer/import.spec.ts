@@ -0,0 +1,28 @@
+import {expectError, expectSuccess} from "./utils";
+
+describe("analyzer/import", () => {
+    expectSuccess(`
+        import int sum(int a, int b = 0) from "math";
+
+        void main() {
+            int x = sum(1, 2);
+            int y = sum(b: 3, a: 4);
+        }
+    `);
+
+    expectError(`// Too many arguments to the imported function
+        import void log(int level) from "logger";
+
+        void main() {
+            log(1, 2);
+        }
+    `);
+
+    expectError(`// Unknown parameter type
+        import void spawn(Unknown@ entity) from "world";
+    `);
+
+    expectError(`// The module name must not be empty
+        import void empty() from "";
+    `);
+});
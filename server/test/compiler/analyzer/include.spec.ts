@@ -0,0 +1,87 @@
+import {expectDiagnostics, expectSuccess} from "./utils";
+
+describe('analyzer/include', () => {
+    expectSuccess([{
+        uri: 'file:///path/to/dir/c.as',
+        content: `
+            void helper() { }
+        `
+    }, {
+        uri: 'file:///path/to/dir/b.as',
+        content: `
+            #include "c.as"
+        `
+    }, {
+        uri: 'file:///path/to/file.as',
+        content: `// Nested includes are resolved relative to the including file
+            #include "dir/b.as"
+            void main() { helper(); }
+        `
+    }]);
+
+    expectDiagnostics([{
+        uri: 'file:///path/to/c.as',
+        content: `
+            #include "file.as"
+        `
+    }, {
+        uri: 'file:///path/to/b.as',
+        content: `
+            #include "c.as"
+        `
+    }, {
+        uri: 'file:///path/to/file.as',
+        content: `// Include cycles are reported with the chain of the includes
+            #include "b.as"
+        `
+    }], [{
+        message: 'Circular include: file.as -> b.as -> c.as -> file.as',
+        related: ["file.as:1 Includes 'b.as'.", "b.as:1 Includes 'c.as'.", "c.as:1 Includes 'file.as'."]
+    }]);
+
+    expectDiagnostics([{
+        uri: 'file:///path/to/b.as',
+        content: `
+            int b = 1;
+        `
+    }, {
+        uri: 'file:///path/to/file.as',
+        content: `// The same file is included through different paths, but its symbols are not duplicated
+            #include "b.as"
+            #include "./dir/../b.as"
+            int main() { return b; }
+        `
+    }], [{message: "'./dir/../b.as' is already included.", related: ['file.as:1 Previously included here.']}]);
+
+    expectSuccess([{
+        uri: 'file:///path/to/b.as',
+        content: `
+            int b = 1;
+        `
+    }, {
+        uri: 'file:///path/to/file.as',
+        content: `// The included path is normalized
+            #include "./dir/../b.as"
+            int main() { return b; }
+        `
+    }]);
+
+    expectDiagnostics([{
+        uri: 'file:///path/to/c.as',
+        content: `
+            int c = 1;
+        `
+    }, {
+        uri: 'file:///path/to/b.as',
+        content: `
+            #include "c.as"
+        `
+    }, {
+        uri: 'file:///path/to/file.as',
+        content: `// The file is already included transitively
+            #include "b.as"
+            #include "c.as"
+            int main() { return c; }
+        `
+    }], [{message: "'c.as' is already included through 'b.as'.", related: ["file.as:1 'c.as' is included through this."]}]);
+});
@@ -0,0 +1,79 @@
+import {expectError, expectSuccess} from "./utils";
+
+const predefined = {
+    uri: 'file:///path/to/as.predefined',
+    content: `
+        class string { }
+        class array<T> {
+            array<T>@ f(int&in) {repeat T};
+        }
+        class dictionary {
+            dictionary@ f() {repeat {string, ?}};
+        }
+        class grid<T> {
+            grid<T>@ f(int&in) {repeat {repeat_same T}};
+        }
+        class pair {
+            pair(int&in) {int, float};
+        }
+    `
+};
+
+function withPredefined(content: string) {
+    return [predefined, {uri: 'file:///path/to/file.as', content: content}];
+}
+
+describe('analyzer/initList', () => {
+    expectSuccess(withPredefined(`// Initializer lists are checked against the list pattern
+        void main() {
+            array<int> a = {1, 2, 3};
+            array<array<int>> b = {{1, 2}, {3}, {}};
+            dictionary c = {{"key", 1}, {"value", 2.0}};
+            grid<int> d = {{1, 2}, {3, 4}};
+            pair e = {1, 2.0};
+        }
+    `));
+
+    expectError(withPredefined(`// The element type must be convertible to the type of the pattern
+        void main() {
+            array<int> a = {1, "two", 3};
+        }
+    `));
+
+    expectError(withPredefined(`// A nested initializer list is required by the pattern
+        void main() {
+            dictionary c = {"key", 1};
+        }
+    `));
+
+    expectError(withPredefined(`// A nested initializer list is not allowed for a primitive element
+        void main() {
+            array<int> a = {{1}, {2}};
+        }
+    `));
+
+    expectError(withPredefined(`// 'repeat_same' requires the same number of elements
+        void main() {
+            grid<int> d = {{1, 2}, {3}};
+        }
+    `));
+
+    expectError(withPredefined(`// The number of elements must match the pattern
+        void main() {
+            pair e = {1};
+        }
+    `));
+
+    expectError(withPredefined(`// The number of elements must match the pattern
+        void main() {
+            pair e = {1, 2.0, 3};
+        }
+    `));
+
+    expectSuccess(withPredefined(`// An initializer list with an explicit type is checked as well
+        void take(array<int>@ a) { }
+        void main() {
+            take(array<int> = {1, 2});
+        }
+    `));
+});
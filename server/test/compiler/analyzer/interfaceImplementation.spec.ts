@@ -0,0 +1,72 @@
+import {expectError, expectSuccess} from "./utils";
+
+describe('analyzer/interfaceImplementation', () => {
+    expectSuccess(`// All interface methods are implemented
+        interface IShape {
+            void draw(int x);
+            int area() const;
+        }
+
+        abstract class Base : IShape {
+            void draw(int x) { }
+        }
+
+        class Square : Base {
+            int area() const { return 1; }
+        }
+
+        void main() {
+            Square square;
+            IShape@ shape = square;
+            shape.draw(1);
+        }
+    `);
+
+    expectError(`// An interface method is not implemented
+        interface IShape {
+            void draw(int x);
+        }
+
+        class Square : IShape { }
+    `);
+
+    expectError(`// The signature of the implementation does not match
+        interface IShape {
+            void draw(int x);
+        }
+
+        class Square : IShape {
+            void draw(float x) { }
+        }
+    `);
+
+    expectError(`// A method of the base interface is not implemented
+        interface IShape {
+            void draw(int x);
+        }
+
+        interface INamedShape : IShape {
+            int id();
+        }
+
+        class Square : INamedShape {
+            int id() { return 0; }
+        }
+    `);
+
+    expectError(`// An abstract class cannot be instantiated
+        abstract class Base { }
+
+        void main() {
+            Base base;
+        }
+    `);
+
+    expectError(`// An abstract class cannot be constructed
+        abstract class Base { }
+
+        void main() {
+            Base@ base = Base();
+        }
+    `);
+});
@@ -0,0 +1,92 @@
+import {expectError, expectSuccess} from "./utils";
+
+describe('analyzer/jumpStatement', () => {
+    expectSuccess(`// 'break' and 'continue' are used inside loops and switch statements
+        void main(int value) {
+            for (int i = 0; i < value; i++) {
+                switch (i) {
+                case 0: continue;
+                default: break;
+                }
+
+                if (i > 2) break;
+            }
+
+            while (value > 0) {
+                do { break; } while (false);
+                value--;
+            }
+        }
+    `);
+
+    expectError(`// 'break' must be inside a loop or switch statement
+        void main() {
+            break;
+        }
+    `);
+
+    expectError(`// 'continue' must be inside a loop statement
+        void main(int value) {
+            switch (value) {
+            case 0: continue;
+            }
+        }
+    `);
+
+    expectError(`// 'break' in a lambda does not exit the outer loop
+        funcdef void Callback();
+
+        void run(Callback@ callback) { callback(); }
+
+        void main() {
+            while (true) {
+                run(function() { break; });
+            }
+        }
+    `);
+
+    expectSuccess(`// 'return' matches the value presence of the accessors and lambdas
+        funcdef int Calc(int);
+
+        int apply(Calc@ calc) { return calc(1); }
+
+        class Foo {
+            int value {
+                get { return 1; }
+                set { return; }
+            }
+        }
+
+        void main() {
+            int result = apply(function(x) { return x * 2; });
+        }
+    `);
+
+    expectError(`// A property getter must return a value
+        class Foo {
+            int value {
+                get { return; }
+            }
+        }
+    `);
+
+    expectError(`// A lambda must return a value
+        funcdef int Calc(int);
+
+        int apply(Calc@ calc) { return calc(1); }
+
+        void main() {
+            int result = apply(function(x) { return; });
+        }
+    `);
+
+    expectError(`// A void lambda does not return a value
+        funcdef void Callback();
+
+        void run(Callback@ callback) { callback(); }
+
+        void main() {
+            run(function() { return 1; });
+        }
+    `);
+});
@@ -0,0 +1,92 @@
+import {expectError, expectSuccess} from "./utils";
+
+describe("analyzer/lambda", () => {
+    expectSuccess(`// Untyped parameters are inferred from the funcdef
+        funcdef int BinaryOp(int, int);
+
+        int apply(BinaryOp@ op, int a, int b) { return op(a, b); }
+
+        void main() {
+            int x = apply(function(a, b) { return a + b; }, 1, 2);
+        }
+    `);
+
+    expectSuccess(`// Lambdas can be assigned to funcdef handles
+        class Entity { int hp; }
+        funcdef void EntityCallback(Entity@ entity);
+
+        void main() {
+            EntityCallback@ callback = function(entity) { entity.hp = 0; };
+            @callback = function(Entity@ entity) { entity.hp = 100; };
+        }
+    `);
+
+    expectError(`// The return type must match the funcdef
+        class Entity { }
+        funcdef bool Predicate(int);
+
+        void filter(Predicate@ predicate) { }
+
+        void main() {
+            filter(function(value) { return Entity(); });
+        }
+    `);
+
+    expectError(`// The lambda does not return a value if the funcdef returns void
+        funcdef void Callback();
+
+        void main() {
+            Callback@ callback = function() { return 1; };
+        }
+    `);
+
+    expectError(`// The number of parameters does not match
+        funcdef void Callback(int);
+
+        void invoke(Callback@ callback) { }
+
+        void main() {
+            invoke(function(a, b) { });
+        }
+    `);
+
+    expectError(`// The explicit parameter type does not match
+        funcdef void Callback(int);
+
+        void invoke(Callback@ callback) { }
+
+        void main() {
+            invoke(function(bool a) { });
+        }
+    `);
+
+    expectSuccess(`// No funcdef is expected here
+        void main() {
+            auto callback = function() { };
+        }
+    `);
+
+    expectSuccess(`// The funcdef is inferred from the overload resolved by the other arguments
+        funcdef void IntCallback(int);
+        funcdef void BoolCallback(bool);
+
+        void invoke(IntCallback@ callback, int value) { }
+        void invoke(BoolCallback@ callback, bool value) { }
+
+        void main() {
+            invoke(function(value) { bool b = value; }, true);
+        }
+    `);
+
+    expectError(`// The lambda is analyzed with the funcdef of the resolved overload
+        funcdef void IntCallback(int);
+        funcdef void BoolCallback(bool);
+
+        void invoke(IntCallback@ callback, int value) { }
+        void invoke(BoolCallback@ callback, bool value) { }
+
+        void main() {
+            invoke(function(value) { bool b = value; }, 1);
+        }
+    `);
+});
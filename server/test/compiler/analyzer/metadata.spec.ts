@@ -0,0 +1,75 @@
+import {expectError, expectSuccess} from "./utils";
+import {copyGlobalSettings, resetGlobalSettings} from "../../../src/core/settings";
+
+function setMetadataSchema() {
+    const settings = copyGlobalSettings();
+    settings.metadataSchema = [
+        {name: 'Editable'},
+        {name: 'Range', arguments: ['min', 'max']},
+        {name: 'Tooltip', arguments: ['text']},
+    ];
+    resetGlobalSettings(settings);
+}
+
+describe('analyzer/metadata', () => {
+    after(() => {
+        resetGlobalSettings(undefined);
+    });
+
+    expectSuccess(`// Any metadata is allowed without the schema
+        [editable]
+        class Player {
+            [Range(minimum = 0)] int hp;
+        }
+    `);
+
+    expectSuccess(`// Metadata on declarations matches the schema
+        [Editable]
+        enum Color { Red, Green }
+
+        [Tooltip("The player")]
+        class Player {
+            [Editable] [Range(min = 0, max = 100)] int hp;
+            [Range(0, 10)] int level;
+            [Editable] int mp { get { return 0; } }
+            [Editable] void heal() { }
+        }
+
+        namespace Game {
+            [Editable] funcdef void Callback();
+            [Editable] interface IEntity {
+                [Editable] void update();
+                [Editable] int hp { get; }
+            }
+        }
+    `).onBegin(setMetadataSchema);
+
+    expectError(`// Metadata on interface methods is checked
+        interface IEntity {
+            [Range(0, 10, 20)] void update();
+        }
+    `).onBegin(setMetadataSchema);
+
+    expectError(`// Metadata names are case-sensitive
+        class Player {
+            [editable] int hp;
+        }
+    `).onBegin(setMetadataSchema);
+
+    expectError(`// Metadata that takes no arguments
+        [Editable(true)]
+        void main() { }
+    `).onBegin(setMetadataSchema);
+
+    expectError(`// Unknown argument name of the metadata
+        class Player {
+            [Range(min = 0, maximum = 100)] int hp;
+        }
+    `).onBegin(setMetadataSchema);
+
+    expectError(`// Too many arguments of the metadata
+        class Player {
+            [Range(0, 10, 20)] int hp;
+        }
+    `).onBegin(setMetadataSchema);
+});
@@ -0,0 +1,112 @@
+import {DiagnosticSeverity} from "vscode-languageserver-types";
+import {expectError, expectSuccess} from "./utils";
+import {FileContents, inspectFileContents, makeFileContentList} from "../../inspectorUtils";
+
+function testDiagnosticCount(fileContents: FileContents, expectedCount: number) {
+    const fileContentList = makeFileContentList(fileContents);
+    const target = fileContentList.at(-1)!;
+
+    it(`[mixin] ${target.content}`, () => {
+        const inspector = inspectFileContents(fileContentList);
+
+        const diagnostics = inspector.getRecord(target.uri).diagnosticsInAnalyzer.filter(
+            diagnostic => diagnostic.severity === DiagnosticSeverity.Error || diagnostic.severity === DiagnosticSeverity.Warning
+        );
+        if (diagnostics.length !== expectedCount) {
+            throw new Error(`Expected ${expectedCount} diagnostics, but got [${diagnostics.map(diagnostic => diagnostic.message)}]`);
+        }
+    });
+}
+
+describe('analyzer/mixin', () => {
+    expectSuccess(`// The members of a mixin class are included in the class
+        mixin class Counter {
+            int count = 0;
+            void increment() { count++; }
+        }
+
+        class Foo : Counter { }
+
+        void main() {
+            Foo foo;
+            foo.increment();
+            int value = foo.count;
+        }
+    `);
+
+    expectSuccess(`// The members of the class override those of the mixin class
+        mixin class Greeter {
+            int greet() { return 0; }
+        }
+
+        class Foo : Greeter {
+            int greet(int x) { return x; }
+        }
+
+        void main() {
+            Foo foo;
+            foo.greet(1);
+        }
+    `);
+
+    expectSuccess(`// The interfaces of the mixin class are implemented by the class
+        interface IShape {
+            int area();
+        }
+
+        mixin class Square : IShape {
+            int area() { return 1; }
+        }
+
+        class Tile : Square { }
+
+        void main() {
+            Tile tile;
+            IShape@ shape = tile;
+        }
+    `);
+
+    expectError(`// A mixin class cannot be used as a type
+        mixin class Counter {
+            int count = 0;
+        }
+
+        void main() {
+            Counter counter;
+        }
+    `);
+
+    expectError(`// A mixin class cannot inherit from a class
+        class Base { }
+
+        mixin class Counter : Base { }
+    `);
+
+    testDiagnosticCount(`// An error in a mixin method is reported once regardless of the number of including classes
+        mixin class Broken {
+            void run() { undefinedFunction(); }
+        }
+
+        class Foo : Broken { }
+        class Bar : Broken { }
+    `, 1);
+
+    testDiagnosticCount([
+        {
+            uri: 'file:///path/to/mix.as',
+            content: `
+                mixin class Broken {
+                    void run() { undefinedFunction(); }
+                }
+            `
+        },
+        {
+            uri: 'file:///path/to/file.as',
+            content: `// An error in a mixin method declared in another file is not reported in the including file
+                #include "mix.as"
+
+                class Foo : Broken { }
+            `
+        }
+    ], 0);
+});
@@ -1,4 +1,4 @@
-import {expectError, expectSuccess} from "./utils";
+import {expectDiagnostics, expectError, expectSuccess} from "./utils";
 
 describe("analyzer/namedArguments", () => {
     expectSuccess(`
@@ -22,4 +22,90 @@ describe("analyzer/namedArguments", () => {
             foo(e: 2.0, 1, b: B(), d: true); // Positional arguments cannot be passed after named arguments
         }
     `);
-});
\ No newline at end of file
+
+    expectSuccess(`
+        interface IShape {
+            int area(int scale, bool rounded = false);
+        }
+
+        void main(IShape@ shape) {
+            shape.area(2, rounded: true);
+        }
+    `);
+
+    expectSuccess([{
+        uri: 'file:///path/to/shape.as',
+        content: `
+            interface IShape {
+                int area(int scale, bool rounded = false);
+            }
+        `
+    }, {
+        uri: 'file:///path/to/file.as',
+        content: `// The interface method declared in the included file accepts named arguments
+            #include "shape.as"
+
+            void main(IShape@ shape) {
+                shape.area(2, rounded: true);
+            }
+        `
+    }]);
+
+    expectDiagnostics(`
+        interface IShape {
+            int area(int scale, bool rounded = false);
+        }
+
+        void main(IShape@ shape) {
+            shape.area(2, $C0$round: true);
+        }
+    `, [{message: "'area' has no parameter named 'round'. Did you mean 'rounded'?"}]);
+
+    expectDiagnostics(`
+        void foo(int alpha, int beta = 0) { }
+
+        void main() {
+            foo($C0$alpah: 1);
+        }
+    `, [{message: "'foo' has no parameter named 'alpah'. Did you mean 'alpha'?"}]);
+
+    expectDiagnostics(`
+        void foo() { }
+
+        void main() {
+            foo($C0$value: 1);
+        }
+    `, [{message: "'foo' has no parameter named 'value'."}]);
+
+    expectDiagnostics(`
+        void foo(int alpha, int beta = 0) { }
+
+        void main() {
+            foo(1, $C0$alpha: 2);
+        }
+    `, [{message: "The parameter 'alpha' is passed both positionally and by name.", related: ["file.as:4 Previously passed here."]}]);
+
+    expectDiagnostics(`
+        void foo(int alpha, int beta = 0) { }
+
+        void main() {
+            foo(alpha: 1, beta: 2, $C0$beta: 3);
+        }
+    `, [{message: "Duplicate named argument 'beta'.", related: ["file.as:4 Previously passed here."]}]);
+
+    expectDiagnostics(`
+        void foo(int alpha, int beta, int gamma = 0) { }
+
+        void main() {
+            foo$C0$(1, gamma: 3);
+        }
+    `, [{message: "No argument is passed to the parameter 'beta' of 'foo', which has no default value."}]);
+
+    expectDiagnostics(`
+        void foo(int alpha, int beta = 0) { }
+
+        void main() {
+            foo(beta: 2, $C0$1);
+        }
+    `, [{message: "Positional arguments cannot be passed after named arguments."}]);
+});
@@ -0,0 +1,109 @@
+import {expectError, expectSuccess} from "./utils";
+import {resetGlobalSettings} from "../../../src/core/settings";
+import {enableImplicitConversionWarnings} from "../../inspectorUtils";
+
+const signChangeOnly = {narrowing: false, fractionalPart: false, signChange: true};
+
+describe('analyzer/numberLiteral', () => {
+    after(() => {
+        resetGlobalSettings(undefined);
+    });
+
+    expectSuccess(`// Integer literals above the range of 'int' are 64-bit integers
+        void main() {
+            int64 a = 9223372036854775807;
+            uint64 b = 18446744073709551615;
+            int c = -2147483648;
+            float d = 3.4e+38f;
+        }
+    `);
+
+    expectError(`// Integer literals must be within the range of 'uint64'
+        uint64 value = 18446744073709551616;
+    `);
+
+    expectError(`// Float literals must be within the range of 'float'
+        float value = 3.5e+38f;
+    `);
+
+    expectSuccess(`// Constant values fit in the destination types
+        const int MAX = 1 << 7;
+
+        void take(uint8 value) { }
+
+        void main() {
+            int8 a = MAX - 1;
+            a = -128;
+            take(255);
+        }
+    `);
+
+    expectError(`// A constant value does not fit in the variable
+        int8 value = 200;
+    `);
+
+    expectError(`// A constant value does not fit in the assigned variable
+        void main() {
+            uint8 value;
+            value = -1;
+        }
+    `);
+
+    expectSuccess(`// A constant value that only changes its sign is not warned by default
+        void main() {
+            uint k = ~0;
+            int w = 0xFFFFFFFF;
+            uint value;
+            value = -1;
+        }
+    `);
+
+    expectError(`// A constant value that changes its sign is warned as a sign change
+        uint k = ~0;
+    `).onBegin(() => enableImplicitConversionWarnings(signChangeOnly));
+
+    expectError(`// A constant value that changes its sign is warned as a sign change
+        int w = 0xFFFFFFFF;
+    `).onBegin(() => enableImplicitConversionWarnings(signChangeOnly));
+
+    expectError(`// A constant value does not fit in the parameter
+        const int MAX = 1 << 10;
+
+        void take(uint8 value) { }
+
+        void main() {
+            take(MAX);
+        }
+    `);
+
+    expectSuccess(`// A huge shift count and a huge exponent do not abort the analysis
+        void take(int64 value) { }
+
+        void main() {
+            int64 a = 1 << 4000000000;
+            int64 b = 2 ** 100000000000;
+            take(1 << 4000000000);
+            take(2 ** 100000000000);
+        }
+    `);
+
+    expectSuccess(`// Hexadecimal, binary and octal literals are 'uint', or 'uint64' if they do not fit in 32 bits
+        void main() {
+            auto a = 0xFFFFFFFF;
+            auto b = 0x80000000;
+            auto c = 0b1010;
+            auto d = 0x100000000;
+            uint e = a;
+            uint f = b;
+            uint g = c;
+            uint64 h = d;
+        }
+    `).onBegin(enableImplicitConversionWarnings);
+
+    expectError(`// A hexadecimal literal is unsigned even if it fits in 'int'
+        void main() {
+            auto value = 0x80000000;
+            int signed = value;
+        }
+    `).onBegin(() => enableImplicitConversionWarnings(signChangeOnly));
+});
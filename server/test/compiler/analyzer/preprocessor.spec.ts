@@ -0,0 +1,60 @@
+import {expectError, expectSuccess} from "./utils";
+import {copyGlobalSettings, resetGlobalSettings} from "../../../src/core/settings";
+
+function defineServerSymbol() {
+    const settings = copyGlobalSettings();
+    settings.definedSymbols = ['SERVER'];
+    resetGlobalSettings(settings);
+}
+
+describe('analyzer/preprocessor', () => {
+    after(() => {
+        resetGlobalSettings(undefined);
+    });
+
+    expectSuccess(`// Only the active branch is analyzed
+        #if SERVER
+        int port = undefinedValue;
+        #else
+        int port = 80;
+        #endif
+
+        void main() { port++; }
+    `);
+
+    expectError(`// Nested branches are inactive if the outer branch is inactive
+        #ifdef CLIENT
+        void setup() { }
+        #else
+        #if SERVER
+        void setup() { }
+        #endif
+        #endif
+
+        void main() { setup(); }
+    `);
+
+    expectError(`// The branch of the defined symbol is active
+        #if SERVER
+        int port = undefinedValue;
+        #else
+        int port = 80;
+        #endif
+    `).onBegin(defineServerSymbol);
+
+    expectSuccess(`// Conditions combine the symbols defined in the settings and in the file
+        #define FEATURE
+
+        #if defined(SERVER) && (FEATURE || !CLIENT)
+        void setup() { }
+        #elif CLIENT
+        void setup(int) { }
+        #else
+        void setup(float) { }
+        #endif
+
+        #ifndef CLIENT
+        void main() { setup(); }
+        #endif
+    `).onBegin(defineServerSymbol);
+});
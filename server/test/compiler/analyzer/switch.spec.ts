@@ -0,0 +1,152 @@
+import {expectError, expectSuccess} from "./utils";
+import {copyGlobalSettings, resetGlobalSettings} from "../../../src/core/settings";
+
+function enableExhaustiveEnumSwitch() {
+    const settings = copyGlobalSettings();
+    settings.exhaustiveEnumSwitch = true;
+    resetGlobalSettings(settings);
+}
+
+function enableCharacterLiterals() {
+    const settings = copyGlobalSettings();
+    settings.characterLiterals = true;
+    resetGlobalSettings(settings);
+}
+
+describe('analyzer/switch', () => {
+    after(() => {
+        resetGlobalSettings(undefined);
+    });
+
+    expectSuccess(`// Case values are compile-time constants
+        namespace Limits {
+            const int MAX = 1 << 4;
+        }
+
+        const int BASE = 10;
+
+        void main(int value) {
+            switch (value) {
+            case 0: break;
+            case 0x1: break;
+            case -BASE: break;
+            case BASE * 2 + 1: break;
+            case Limits::MAX: break;
+            default: break;
+            }
+        }
+    `);
+
+    expectError(`// The switch expression must be an integer or enum
+        void main(float value) {
+            switch (value) {
+            case 1: break;
+            }
+        }
+    `);
+
+    expectError(`// Case values must be compile-time constants
+        void main(int value, int other) {
+            switch (value) {
+            case other: break;
+            }
+        }
+    `);
+
+    expectError(`// Case values must be compatible with the switch expression
+        enum Color { Red, Green }
+
+        void main(Color color) {
+            switch (color) {
+            case 1.5: break;
+            }
+        }
+    `);
+
+    expectError(`// Duplicate case values are not allowed
+        const int ONE = 1;
+
+        void main(int value) {
+            switch (value) {
+            case 1: break;
+            case ONE: break;
+            }
+        }
+    `);
+
+    expectError(`// Duplicate enum values are detected from the initializers
+        enum Color { Red, Green = Red + 2, Blue, Crimson = 0 }
+
+        void main(Color color) {
+            switch (color) {
+            case Red: break;
+            case Color::Crimson: break;
+            }
+        }
+    `);
+
+    expectError(`// Only one default label is allowed
+        void main(int value) {
+            switch (value) {
+            default: break;
+            case 1: break;
+            default: break;
+            }
+        }
+    `);
+
+    expectSuccess(`// Every enum member is handled
+        enum Color { Red, Green, Blue, Crimson = Red }
+
+        void main(Color color) {
+            switch (color) {
+            case Red: break;
+            case Green: break;
+            case Blue: break;
+            }
+        }
+    `).onBegin(enableExhaustiveEnumSwitch);
+
+    expectSuccess(`// The default label handles the remaining enum members
+        enum Color { Red, Green, Blue }
+
+        void main(Color color) {
+            switch (color) {
+            case Red: break;
+            default: break;
+            }
+        }
+    `).onBegin(enableExhaustiveEnumSwitch);
+
+    expectError(`// An enum member is not handled
+        enum Color { Red, Green, Blue }
+
+        void main(Color color) {
+            switch (color) {
+            case Red: break;
+            case Green: break;
+            }
+        }
+    `).onBegin(enableExhaustiveEnumSwitch);
+
+    expectSuccess(`// Character literals are integer constants
+        void main(int c) {
+            switch (c) {
+            case 'a': break;
+            case 'b': break;
+            case '\\n': break;
+            case '\\x41': break;
+            default: break;
+            }
+        }
+    `).onBegin(enableCharacterLiterals);
+
+    expectError(`// A character literal is evaluated to its character code
+        void main(int c) {
+            switch (c) {
+            case 'a': break;
+            case 97: break;
+            }
+        }
+    `).onBegin(enableCharacterLiterals);
+});
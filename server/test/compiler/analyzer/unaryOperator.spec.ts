@@ -0,0 +1,74 @@
+import {expectError, expectSuccess} from "./utils";
+
+describe("analyzer/unaryOperator", () => {
+    expectSuccess(`// Unary operators are resolved through the operator overloads
+        class Vec {
+            Vec opNeg() const { return this; }
+            Vec opCom() const { return this; }
+            Vec@ opPreInc() { return this; }
+            Vec@ opPreDec() { return this; }
+            Vec opPostInc() { return this; }
+            Vec opPostDec() { return this; }
+        }
+
+        void take(Vec v) { }
+
+        void main() {
+            Vec v;
+            take(-v);
+            take(~v);
+            take(++v);
+            take(--v);
+            take(v++);
+            take(v--);
+        }
+    `);
+
+    expectSuccess(`// Unary operators on primitive values
+        void main() {
+            int i = 0;
+            i = -~i;
+            bool b = !(i == 0);
+            ++i;
+            i--;
+        }
+    `);
+
+    expectError(`// The operand of '!' must be convertible to bool
+        void main() {
+            int i = 0;
+            bool b = !i;
+        }
+    `);
+
+    expectError(`// opNeg is not defined
+        class Foo { }
+
+        void main() {
+            Foo foo;
+            -foo;
+        }
+    `);
+
+    expectError(`// opPostInc is not defined
+        class Foo {
+            Foo@ opPreInc() { return this; }
+        }
+
+        void main() {
+            Foo foo;
+            foo++;
+        }
+    `);
+
+    expectError(`// The non-const opPreInc cannot be called on a read-only object
+        class Foo {
+            Foo@ opPreInc() { return this; }
+        }
+
+        void main() {
+            const Foo foo;
+            ++foo;
+        }
+    `);
+});
@@ -0,0 +1,59 @@
+import {DiagnosticTag} from "vscode-languageserver-types";
+import {inspectFileContents, makeFileContentList} from "../../inspectorUtils";
+import {copyGlobalSettings, resetGlobalSettings} from "../../../src/core/settings";
+
+function testUnusedSymbols(content: string, expected: string[], configure?: () => void) {
+    it(`[unusedSymbol] ${content}`, () => {
+        configure?.();
+
+        const fileContentList = makeFileContentList(content);
+        const inspector = inspectFileContents(fileContentList);
+
+        const actual = inspector.getRecord(fileContentList[0].uri).diagnosticsInAnalyzer
+            .filter(diagnostic => diagnostic.tags?.includes(DiagnosticTag.Unnecessary))
+            .map(diagnostic => /'(\w+)'/.exec(diagnostic.message)?.[1]);
+
+        if (JSON.stringify(actual.sort()) !== JSON.stringify(expected.sort())) {
+            throw new Error(`Expected unused symbols [${expected}], but got [${actual}]`);
+        }
+    });
+}
+
+function disableUnusedParameters() {
+    const settings = copyGlobalSettings();
+    settings.unusedSymbols.parameters = false;
+    resetGlobalSettings(settings);
+}
+
+describe('analyzer/unusedSymbol', () => {
+    after(() => {
+        resetGlobalSettings(undefined);
+    });
+
+    testUnusedSymbols(`// Unused locals, parameters and private members are reported
+        class Foo {
+            private int used;
+            private int unused;
+            int visible;
+            private void helper() { }
+            void run() { used = 1; }
+        }
+
+        int compute(int a, int b) {
+            int local = 1;
+            return a;
+        }
+    `, ['unused', 'helper', 'b', 'local']);
+
+    testUnusedSymbols(`// Symbols prefixed with '_' are ignored
+        void main(int _arg) {
+            int _local = 0;
+        }
+    `, []);
+
+    testUnusedSymbols(`// Each category can be disabled
+        void main(int arg) {
+            int local = 0;
+        }
+    `, ['local'], disableUnusedParameters);
+});
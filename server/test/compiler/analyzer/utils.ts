@@ -1,9 +1,10 @@
-import {DiagnosticSeverity} from "vscode-languageserver-types";
+import {Diagnostic, DiagnosticSeverity} from "vscode-languageserver-types";
 import {
     FileContents,
     inspectFileContents,
     InspectorTestEvent, makeFileContentList
 } from "../../inspectorUtils";
+import {CaretMap} from "../../services/caretMap";
 
 function testAnalyzer(fileContents: FileContents, expectSuccess: boolean): InspectorTestEvent {
     const fileContentList = makeFileContentList(fileContents);
@@ -45,3 +46,42 @@ export function expectError(fileContents: FileContents) {
     return testAnalyzer(fileContents, false);
 }
 
+interface ExpectedDiagnostic {
+    message: string;
+    related?: string[]; // e.g., "b.as:1 Includes 'file.as'." for the related information at line 1 of 'b.as'
+}
+
+/**
+ * Expects the errors and warnings in the last file to be the specified ones.
+ * The n-th diagnostic must start at the caret '$C{n}$' if it is specified.
+ */
+export function expectDiagnostics(fileContents: FileContents, expected: ExpectedDiagnostic[]) {
+    const fileContentList = makeFileContentList(fileContents);
+    const caretMap = new CaretMap().processFiles(fileContentList);
+    const target = fileContentList.at(-1)!;
+
+    it(`[analyzer] ${target.content}`, () => {
+        const inspector = inspectFileContents(fileContentList);
+
+        const stringify = (diagnostic: Diagnostic, index: number) => JSON.stringify({
+            message: diagnostic.message,
+            related: diagnostic.relatedInformation?.map(info =>
+                `${info.location.uri.split('/').at(-1)}:${info.location.range.start.line} ${info.message}`),
+            start: index < caretMap.length ? `${diagnostic.range.start.line}:${diagnostic.range.start.character}` : undefined
+        });
+
+        const actual = inspector.getRecord(target.uri).diagnosticsInAnalyzer
+            .filter(diagnostic => diagnostic.severity === DiagnosticSeverity.Error || diagnostic.severity === DiagnosticSeverity.Warning)
+            .map(stringify);
+
+        const expectedList = expected.map((entry, index) => JSON.stringify({
+            message: entry.message,
+            related: entry.related,
+            start: index < caretMap.length ? caretMap.get(index).position.simpleFormat() : undefined
+        }));
+
+        if (JSON.stringify(actual) !== JSON.stringify(expectedList)) {
+            throw new Error(`Incorrect diagnostics.\nexpected: [${expectedList}]\nactual  : [${actual}]`);
+        }
+    });
+}
@@ -57,6 +57,21 @@ describe("Parser", () => {
         }
     `);
 
+    expectSuccess(`
+        interface MyInterface
+        {
+            [Editable] void DoSomething();
+            [Editable] int Value { get; set; }
+        }
+    `);
+
+    expectFailure(`
+        class MyClass
+        {
+            int Value { get; set { } }
+        }
+    `);
+
     expectSuccess(`
         enum MyEnum
         {
@@ -104,5 +119,11 @@ describe("Parser", () => {
 
     expectSuccess(`bool foo = not true; bool bar = not not false;`);
 
+    expectSuccess(`uint a = 0b1010; uint b = 0o17; uint c = 0d99; uint d = 0xFFff;`);
+
+    expectFailure(`int a = 0b102;`);
+
+    expectFailure(`int a = 0x;`);
+
     expectFailure(`funcdef`);
 });
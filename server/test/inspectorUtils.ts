@@ -1,4 +1,5 @@
 import {Inspector} from "../src/inspector/inspector";
+import {copyGlobalSettings, getGlobalSettings, resetGlobalSettings} from "../src/core/settings";
 
 export class InspectorTestEvent {
     private _onBegin: () => void = () => {
@@ -50,3 +51,16 @@ export function inspectFileContents(fileContentList: FileContentUnit[]): Inspect
     return inspector;
 }
 
+type ImplicitConversionSettings = ReturnType<typeof getGlobalSettings>['implicitConversion'];
+
+/**
+ * Enables the warnings of the implicit conversions, all of them by default.
+ * Call `resetGlobalSettings(undefined)` after the tests.
+ */
+export function enableImplicitConversionWarnings(
+    warnings: ImplicitConversionSettings = {narrowing: true, fractionalPart: true, signChange: true}
+) {
+    const settings = copyGlobalSettings();
+    settings.implicitConversion = {...warnings};
+    resetGlobalSettings(settings);
+}
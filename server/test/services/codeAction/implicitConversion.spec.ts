@@ -0,0 +1,41 @@
+import {testCodeAction} from "./utils";
+import {resetGlobalSettings} from "../../../src/core/settings";
+import {enableImplicitConversionWarnings} from "../../inspectorUtils";
+
+describe('codeAction/implicitConversion', () => {
+    after(() => {
+        resetGlobalSettings(undefined);
+    });
+
+    testCodeAction(`
+        void main(int64 big) {
+            int8 small = $C0$big;
+        }
+    `, `Convert explicitly to 'int8'`, `
+        void main(int64 big) {
+            int8 small = int8(big);
+        }
+    `).onBegin(enableImplicitConversionWarnings);
+
+    testCodeAction(`
+        int8 narrow(int64 big) {
+            return $C0$big + 1;
+        }
+    `, `Convert explicitly to 'int8'`, `
+        int8 narrow(int64 big) {
+            return int8(big + 1);
+        }
+    `).onBegin(enableImplicitConversionWarnings);
+
+    testCodeAction(`
+        class Player {
+            int64 _score;
+            int8 get_score() property { return $C0$_score; }
+        }
+    `, `Convert explicitly to 'int8'`, `
+        class Player {
+            int64 _score;
+            int8 get_score() property { return int8(_score); }
+        }
+    `).onBegin(enableImplicitConversionWarnings);
+});
@@ -0,0 +1,57 @@
+import {testCodeAction} from "./utils";
+
+describe('codeAction/unusedSymbol', () => {
+    testCodeAction(`
+        void main() {
+            int $C0$local = 1;
+            print();
+        }
+    `, `Remove unused declaration 'local'`, `
+        void main() {
+            
+            print();
+        }
+    `);
+
+    testCodeAction(`
+        class Foo {
+            private void $C0$helper() { }
+        }
+    `, `Remove unused declaration 'helper'`, `
+        class Foo {
+            
+        }
+    `);
+
+    testCodeAction(`
+        int compute(int a, int $C0$b) {
+            return a;
+        }
+    `, `Remove the name of unused parameter 'b'`, `
+        int compute(int a, int) {
+            return a;
+        }
+    `);
+
+    testCodeAction(`
+        int compute(int a, int $C0$b) {
+            return a;
+        }
+    `, `Prefix 'b' with an underscore`, `
+        int compute(int a, int _b) {
+            return a;
+        }
+    `);
+
+    testCodeAction(`
+        void main() {
+            int $C0$x = 1, y = 2;
+            y++;
+        }
+    `, `Prefix 'x' with an underscore`, `
+        void main() {
+            int _x = 1, y = 2;
+            y++;
+        }
+    `);
+});
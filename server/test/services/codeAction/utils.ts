@@ -0,0 +1,65 @@
+import {TextEdit} from "vscode-languageserver-types";
+import {
+    FileContents,
+    inspectFileContents,
+    InspectorTestEvent,
+    makeFileContentList
+} from "../../inspectorUtils";
+import {CaretMap} from "../caretMap";
+import {provideCodeAction} from "../../../src/services/codeAction";
+import {TextRange} from "../../../src/compiler_tokenizer/textLocation";
+
+function applyTextEdits(content: string, edits: TextEdit[]): string {
+    const lines = content.split('\n');
+    const toOffset = (line: number, character: number) =>
+        lines.slice(0, line).reduce((offset, text) => offset + text.length + 1, 0) + character;
+
+    // Apply the edits from the end so that the offsets of the remaining edits are not shifted.
+    const sortedEdits = edits
+        .map(edit => ({
+            start: toOffset(edit.range.start.line, edit.range.start.character),
+            end: toOffset(edit.range.end.line, edit.range.end.character),
+            newText: edit.newText
+        }))
+        .sort((a, b) => b.start - a.start);
+
+    let result = content;
+    for (const edit of sortedEdits) {
+        result = result.substring(0, edit.start) + edit.newText + result.substring(edit.end);
+    }
+
+    return result;
+}
+
+/**
+ * Tests that the code action with the title at the caret '$C0$' changes the file to the expected content.
+ */
+export function testCodeAction(fileContents: FileContents, title: string, expectedContent: string): InspectorTestEvent {
+    const fileContentList = makeFileContentList(fileContents);
+    const caretMap = new CaretMap().processFiles(fileContentList);
+    const target = caretMap.get(0);
+    const targetContent = fileContentList.find(file => file.uri === target.uri)!.content;
+
+    const event = new InspectorTestEvent();
+
+    it(`[codeAction] ${title}: ${targetContent}`, () => {
+        event.begin();
+
+        const inspector = inspectFileContents(fileContentList);
+
+        const globalScope = inspector.getRecord(target.uri).analyzerScope.globalScope;
+        const range = new TextRange(target.position, target.position);
+        const codeAction = provideCodeAction(globalScope, [], range).find(wrapper => wrapper.action.title === title);
+        if (codeAction === undefined) throw new Error(`Missing code action: ${title}`);
+
+        codeAction.resolver(codeAction.action);
+
+        const edits = codeAction.action.edit?.changes?.[target.uri] ?? [];
+        const actualContent = applyTextEdits(targetContent, edits);
+        if (actualContent !== expectedContent) {
+            throw new Error(`Incorrect code action result.\nexpected: ${expectedContent}\nactual  : ${actualContent}`);
+        }
+    });
+
+    return event;
+}
@@ -0,0 +1,24 @@
+import {testCompletion} from "./utils";
+
+describe('completion/initList', () => {
+    testCompletion([
+        {
+            uri: 'file:///path/to/as.predefined',
+            content: `
+                class array<T> {
+                    array<T>@ f(int&in) {repeat T};
+                }
+            `
+        },
+        {
+            uri: 'file:///path/to/file.as',
+            content: `// Members of the enum expected in the initializer list are suggested.
+                enum Color { Red, Green }
+                void main() {
+                    array<Color> colors = {Red, $C0$};
+                }
+            `
+        }
+    ], ["Red", "Green", "Color", "array", "colors", "main"]
+    );
+});
@@ -0,0 +1,57 @@
+import {inspectFileContents, makeFileContentList} from "../../inspectorUtils";
+import {CaretMap} from "../caretMap";
+import {provideCompletionOfToken} from "../../../src/services/completionExtension";
+import {copyGlobalSettings, resetGlobalSettings} from "../../../src/core/settings";
+
+function testMetadataCompletion(content: string, expected: string[] | undefined) {
+    const fileContentList = makeFileContentList(content);
+    const caretMap = new CaretMap().processFiles(fileContentList);
+
+    it(`[completion] ${fileContentList[0].content}`, () => {
+        const settings = copyGlobalSettings();
+        settings.metadataSchema = [
+            {name: 'Editable'},
+            {name: 'Range', arguments: ['min', 'max']},
+        ];
+        resetGlobalSettings(settings);
+
+        const inspector = inspectFileContents(fileContentList);
+
+        const target = caretMap.get(0);
+        const rawTokens = inspector.getRecord(target.uri).rawTokens;
+        const actual = provideCompletionOfToken(rawTokens, target.position)?.map(item => item.label);
+        if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+            throw new Error(`Incorrect completion.\nexpected: [${expected}]\nactual  : [${actual}]`);
+        }
+    });
+}
+
+describe('completion/metadata', () => {
+    after(() => {
+        resetGlobalSettings(undefined);
+    });
+
+    testMetadataCompletion(`// Metadata names are completed after '['
+        class Player {
+            [$C0$
+        }
+    `, ['deprecated', 'Editable', 'Range']);
+
+    testMetadataCompletion(`// Metadata names are completed while typing
+        class Player {
+            [Edi$C0$
+        }
+    `, ['deprecated', 'Editable', 'Range']);
+
+    testMetadataCompletion(`// Argument names are completed in the parentheses
+        class Player {
+            [Range(min = 0, m$C0$
+        }
+    `, ['min', 'max']);
+
+    testMetadataCompletion(`// Index access is not metadata
+        void main(array<int> values) {
+            int value = values[$C0$0];
+        }
+    `, undefined);
+});
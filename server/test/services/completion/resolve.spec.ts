@@ -0,0 +1,70 @@
+import {MarkupContent} from "vscode-languageserver-types";
+import {inspectFileContents, makeFileContentList} from "../../inspectorUtils";
+import {CaretMap} from "../caretMap";
+import {provideCompletion} from "../../../src/services/completion";
+import {provideCompletionResolve} from "../../../src/services/completionResolve";
+
+function testCompletionResolve(content: string, label: string, expected: { detail?: string, documentation?: string }) {
+    const fileContentList = makeFileContentList(content);
+    const caretMap = new CaretMap().processFiles(fileContentList);
+
+    it(`[completionResolve] ${fileContentList[0].content}`, () => {
+        const inspector = inspectFileContents(fileContentList);
+
+        const target = caretMap.get(0);
+        const globalScope = inspector.getRecord(target.uri).analyzerScope.globalScope;
+        const itemWrapper = provideCompletion(globalScope, target.position).find(wrapper => wrapper.item.label === label);
+        if (itemWrapper === undefined) throw new Error(`Missing completion item: ${label}`);
+
+        const item = provideCompletionResolve(globalScope, itemWrapper);
+        const actual = {detail: item.detail, documentation: (item.documentation as MarkupContent | undefined)?.value};
+        if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+            throw new Error(`Incorrect completion item.\nexpected: ${JSON.stringify(expected)}\nactual  : ${JSON.stringify(actual)}`);
+        }
+    });
+}
+
+describe('completion/resolve', () => {
+    testCompletionResolve(`// The document comment of the function is shown
+
+        /**
+         * Moves the player.
+         * @param x The horizontal distance.
+         */
+        void move(int x) { }
+
+        void main() {
+            $C0$
+        }
+    `, 'move', {
+        detail: 'void move(int)',
+        documentation: "Moves the player.\n\n*@param* `x` — The horizontal distance."
+    });
+
+    testCompletionResolve(`// The document comment of the variable is shown
+
+        // The number of lives.
+        int lives = 3;
+
+        void main() {
+            $C0$
+        }
+    `, 'lives', {
+        detail: 'int lives',
+        documentation: 'The number of lives.'
+    });
+
+    testCompletionResolve(`// The deprecation is shown in the detail
+
+        /// Walks slowly.
+        [deprecated("Use move() instead.")]
+        void walk() { }
+
+        void main() {
+            $C0$
+        }
+    `, 'walk', {
+        detail: 'void walk() (deprecated: Use move() instead.)',
+        documentation: 'Walks slowly.'
+    });
+});
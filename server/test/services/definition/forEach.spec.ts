@@ -0,0 +1,27 @@
+import {testDefinition} from "./utils";
+import {copyGlobalSettings, resetGlobalSettings} from "../../../src/core/settings";
+
+describe('definition/forEach', () => {
+    before(() => {
+        const settings = copyGlobalSettings();
+        settings.supportsForEach = true;
+        resetGlobalSettings(settings);
+    });
+
+    after(() => {
+        resetGlobalSettings(undefined);
+    });
+
+    testDefinition(`
+        class Inventory {
+            uint opForBegin$C0$() const { return 0; }
+            bool opForEnd(uint index) const { return true; }
+            uint opForNext(uint index) const { return index + 1; }
+            int opForValue(uint index) const { return 0; }
+        }
+        void main() {
+            Inventory inventory;
+            foreach$C1$ (auto item : inventory) { }
+        }`
+    );
+});
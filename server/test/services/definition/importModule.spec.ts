@@ -0,0 +1,23 @@
+import {testDefinition} from "./utils";
+
+describe('definition/importModule', () => {
+    testDefinition([{
+        uri: 'file:///path/to/math.as',
+        content: `
+            int sum$C0$(int a, int b) { return a + b; }
+        `
+    }, {
+        uri: 'file:///path/to/file.as',
+        content: `// Jump from the module name to the declaration in the module
+            import int sum(int a, int b) from "math$C1$";
+        `
+    }]);
+
+    testDefinition(`
+        import int sum$C0$(int a, int b) from "math";
+
+        void main() {
+            sum$C1$(1, 2);
+        }
+    `);
+});
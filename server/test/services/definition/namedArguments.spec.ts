@@ -11,4 +11,14 @@ describe('definition/namedArguments', () => {
             foo(1, e: 2.0, b$C1$: B(), d: true);
         }
     `);
-});
\ No newline at end of file
+
+    testDefinition(`// Named arguments refer to the parameters of the interface method
+        interface IShape {
+            int area(int scale$C0$, bool rounded = false);
+        }
+
+        void main(IShape@ shape) {
+            shape.area(rounded: true, scale$C1$: 2);
+        }
+    `);
+});
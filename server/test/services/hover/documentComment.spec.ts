@@ -0,0 +1,50 @@
+import {testHover} from "./utils";
+
+describe('hover/documentComment', () => {
+    testHover(`// The Doxygen-style commands are shown in sections
+
+        /**
+         * @brief Adds two numbers.
+         *
+         * The result is not clamped.
+         * @param a The first number.
+         * @return The sum.
+         * @note Overflow is not checked.
+         * @see sub
+         */
+        int add(int a, int b) { return a + b; }
+
+        void main() {
+            $C0$add(1, 2);
+        }
+    `, "```cpp\nint add(int a, int b);\n```\n***\n" +
+        "Adds two numbers.\n\nThe result is not clamped.\n\n" +
+        "*@param* `a` — The first number.\n\n" +
+        "*@return* The sum.\n\n" +
+        "*@note* Overflow is not checked.\n\n" +
+        "*@see* sub");
+
+    testHover(`// The line breaks of the plain comments are kept
+
+        // The maximum speed.
+        // It is measured in meters per second.
+        const float maxSpeed = 10;
+
+        float get() {
+            return $C0$maxSpeed;
+        }
+    `, "```cpp\nfloat maxSpeed = 10;\n```\n***\n" +
+        "The maximum speed.  \nIt is measured in meters per second.");
+
+    testHover(`// The paragraphs of the plain comments are kept
+
+        /// The first paragraph.
+        ///
+        /// The second paragraph.
+        int value;
+
+        int get() {
+            return $C0$value;
+        }
+    `, "```cpp\nint value;\n```\n***\nThe first paragraph.\n\nThe second paragraph.");
+});
@@ -0,0 +1,22 @@
+import {testHover} from "./utils";
+
+describe('hover/function', () => {
+    testHover(`// The parameter names of the function are shown
+        void main() {
+            $C0$area(1, true);
+        }
+
+        int area(int w, bool h) { return 0; }
+    `, "```cpp\nint area(int w, bool h);\n```\n***\n");
+
+    testHover(`// The parameter names of the interface method are shown
+
+        interface IShape {
+            int area(int w, bool h);
+        }
+
+        void main(IShape@ shape) {
+            shape.$C0$area(1, true);
+        }
+    `, "```cpp\nint area(int w, bool h);\n```\n***\n");
+});
@@ -0,0 +1,23 @@
+import {testHover} from "./utils";
+
+describe('hover/metadata', () => {
+    testHover(`
+        class Player {
+            [Editable] [Range(min = 0, max = 100)] int hp;
+        }
+
+        void main(Player player) {
+            int value = player.$C0$hp;
+        }
+    `, "```cpp\n[Editable]\n[Range(min = 0, max = 100)]\nint hp;\n```\n***\n");
+
+    testHover(`
+        interface IEntity {
+            [Editable] void update();
+        }
+
+        void main(IEntity@ entity) {
+            entity.$C0$update();
+        }
+    `, "```cpp\n[Editable]\nvoid update();\n```\n***\n");
+});
@@ -0,0 +1,37 @@
+import {MarkupContent} from "vscode-languageserver-types";
+import {
+    FileContents,
+    inspectFileContents,
+    InspectorTestEvent,
+    makeFileContentList
+} from "../../inspectorUtils";
+import {CaretMap} from "../caretMap";
+import {provideHover} from "../../../src/services/hover";
+
+/**
+ * Tests that the hover at the caret '$C0$' shows the expected markdown.
+ */
+export function testHover(fileContents: FileContents, expected: string): InspectorTestEvent {
+    const fileContentList = makeFileContentList(fileContents);
+    const caretMap = new CaretMap().processFiles(fileContentList);
+    const target = caretMap.get(0);
+
+    const event = new InspectorTestEvent();
+
+    it(`[hover] ${fileContentList.at(-1)!.content}`, () => {
+        event.begin();
+
+        const inspector = inspectFileContents(fileContentList);
+
+        const globalScope = inspector.getRecord(target.uri).analyzerScope.globalScope;
+        const hover = provideHover(globalScope, target.position);
+        if (hover === undefined) throw new Error('Missing hover.');
+
+        const actual = (hover.contents as MarkupContent).value;
+        if (actual !== expected) {
+            throw new Error(`Incorrect hover.\nexpected: ${JSON.stringify(expected)}\nactual  : ${JSON.stringify(actual)}`);
+        }
+    });
+
+    return event;
+}
@@ -0,0 +1,50 @@
+import {inspectFileContents, makeFileContentList} from "../../inspectorUtils";
+import {provideSignatureHelp} from "../../../src/services/signatureHelp";
+import {CaretMap} from "../caretMap";
+import {MarkupContent} from "vscode-languageserver-types";
+
+function testParameterDocumentation(content: string, expected: string[]) {
+    const fileContentList = makeFileContentList(content);
+    const caretMap = new CaretMap().processFiles(fileContentList);
+
+    it(`[signatureHelp] ${fileContentList[0].content}`, () => {
+        const inspector = inspectFileContents(fileContentList);
+
+        const target = caretMap.get(0);
+        const globalScope = inspector.getRecord(target.uri).analyzerScope.globalScope;
+        const signature = provideSignatureHelp(globalScope, target.position, target.uri).signatures[0];
+        if (signature === undefined) throw new Error('Missing signature help.');
+
+        const actual = (signature.parameters ?? [])
+            .map(parameter => (parameter.documentation as MarkupContent | undefined)?.value ?? '');
+        if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+            throw new Error(`Expected parameter documentation [${expected}], but got [${actual}]`);
+        }
+    });
+}
+
+describe('signatureHelp/documentComment', () => {
+    testParameterDocumentation(`// Parameters are documented with '@param' and '\\param'
+        /**
+         * @brief Moves the player.
+         * @param[in] x The horizontal distance,
+         *     which can be negative.
+         * \\param y The vertical distance.
+         * @return Whether the player moved.
+         */
+        bool move(int x, int y) { return true; }
+
+        void main() {
+            move($C0$);
+        }
+    `, ['The horizontal distance, which can be negative.', 'The vertical distance.']);
+
+    testParameterDocumentation(`// Undocumented parameters have no documentation
+        /// @param speed The speed in meters per second.
+        void run(float speed, bool loop) { }
+
+        void main() {
+            run($C0$);
+        }
+    `, ['The speed in meters per second.', '']);
+});